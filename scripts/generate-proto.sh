@@ -2,13 +2,27 @@
 
 # Script to generate TypeScript definitions from proto files
 # This script can be used by consuming projects to generate their own proto definitions
+#
+# Output per proto file: message interfaces, `<Service>Client` / `<Service>Controller` interfaces
+# and package / service name constants, plus an index.ts exposing each proto package as a namespace.
+# WrappedGrpc.getTypedService() builds on the `<Service>Client` interfaces.
 
 set -e
 
 PROTO_DIR="${1:-./proto}"
 OUTPUT_DIR="${2:-./src/generated}"
-GRPC_TOOLS_NODE_PROTOC_PLUGIN="$(npm root)/.bin/grpc_tools_node_protoc_plugin"
-GRPC_TOOLS_NODE_PROTOC="$(npm root)/.bin/grpc_tools_node_protoc"
+NPM_BIN="$(npm root)/.bin"
+TS_PROTO_PLUGIN="$NPM_BIN/protoc-gen-ts_proto"
+
+# Prefer a protoc on PATH, fall back to the one bundled with grpc-tools
+if command -v protoc > /dev/null 2>&1; then
+    PROTOC="protoc"
+elif [ -x "$NPM_BIN/grpc_tools_node_protoc" ]; then
+    PROTOC="$NPM_BIN/grpc_tools_node_protoc"
+else
+    echo "protoc not found, install protobuf-compiler or grpc-tools"
+    exit 1
+fi
 
 # Check if proto directory exists
 if [ ! -d "$PROTO_DIR" ]; then
@@ -16,6 +30,11 @@ if [ ! -d "$PROTO_DIR" ]; then
     exit 1
 fi
 
+if [ ! -x "$TS_PROTO_PLUGIN" ]; then
+    echo "ts-proto plugin not found, run: npm install --save-dev ts-proto"
+    exit 1
+fi
+
 # Create output directory if it doesn't exist
 mkdir -p "$OUTPUT_DIR"
 
@@ -23,21 +42,27 @@ echo "Generating TypeScript definitions from proto files..."
 echo "Proto directory: $PROTO_DIR"
 echo "Output directory: $OUTPUT_DIR"
 
-# Generate TypeScript definitions using ts-proto
-npx ts-proto \
-    --path="$PROTO_DIR" \
-    --outputPath="$OUTPUT_DIR" \
-    --addGrpcMetadata \
-    --addNestjsRestParameter \
-    --nestJs \
-    --outputServices=grpc-js \
-    --outputClientImpl=grpc-web \
-    --lowerCaseServiceMethods \
-    --outputJsonMethods \
-    --outputPartialMethods \
-    --outputTypeRegistry \
-    --useExactTypes=false \
-    --stringEnums \
-    "$PROTO_DIR/services/*.proto"
+# Generate TypeScript definitions using ts-proto.
+# Only types and NestJS client/controller interfaces are emitted (no encoders), so the output
+# has no runtime dependency besides @nestjs/microservices.
+"$PROTOC" \
+    --plugin="protoc-gen-ts_proto=$TS_PROTO_PLUGIN" \
+    --ts_proto_out="$OUTPUT_DIR" \
+    --ts_proto_opt=nestJs=true \
+    --ts_proto_opt=addGrpcMetadata=false \
+    --ts_proto_opt=addNestjsRestParameter=false \
+    --ts_proto_opt=stringEnums=true \
+    --ts_proto_opt=useDate=false \
+    -I "$PROTO_DIR/services" \
+    "$PROTO_DIR"/services/*.proto
+
+# Expose every proto package as a namespace (message names may repeat across packages)
+INDEX_FILE="$OUTPUT_DIR/index.ts"
+
+echo "// Code generated by scripts/generate-proto.sh. DO NOT EDIT." > "$INDEX_FILE"
+for proto in "$PROTO_DIR"/services/*.proto; do
+    name="$(basename "$proto" .proto)"
+    echo "export * as $name from './$name';" >> "$INDEX_FILE"
+done
 
 echo "Proto generation completed successfully!"
@@ -0,0 +1,52 @@
+import { isObject } from 'lodash';
+
+/**
+ * Response served while the circuit of a method is open.
+ * Sources are tried in order: last known good response → `factory` → `value`.
+ */
+export interface GrpcFallbackOptions {
+    factory?: (request: unknown, error: unknown) => unknown; // may return a Promise or an Observable
+    /**
+     * Serve the last successful response for the same request, if it is not older than `maxStaleness` ms
+     */
+    lastKnownGood?: {
+        maxEntries?: number; // cached requests per method (default 100)
+        maxStaleness?: number; // default: no limit
+    };
+    value?: unknown;
+}
+
+export type GrpcFallbackSource = 'factory' | 'lastKnownGood' | 'value';
+
+export interface GrpcDegradedInfo {
+    reason: 'circuit-open';
+    source: GrpcFallbackSource;
+    staleness?: number; // age of a last known good response in ms
+}
+
+const DEGRADED = Symbol('grpc-degraded');
+
+/**
+ * Flag a fallback response. Objects are shallow-copied (cached responses are never mutated) and tagged
+ * with a non-enumerable symbol, so the flag doesn't show up in JSON or logs.
+ * Primitive responses cannot be flagged and are returned as is.
+ */
+export const markDegraded = <T>(response: T, info: GrpcDegradedInfo): T => {
+    if (!isObject(response)) {
+        return response;
+    }
+
+    const copy = Array.isArray(response) ? [...response] : { ...response };
+
+    Object.defineProperty(copy, DEGRADED, { value: info });
+
+    return copy as T;
+};
+
+/**
+ * Why a response is degraded, or undefined for a live response
+ */
+export const getDegradedInfo = (response: unknown): GrpcDegradedInfo | undefined =>
+    isObject(response) ? (response as { [DEGRADED]?: GrpcDegradedInfo })[DEGRADED] : undefined;
+
+export const isDegradedResponse = (response: unknown): boolean => !!getDegradedInfo(response);
@@ -1 +1,7 @@
+export * from './fallback';
+
+export * from './retry-budget';
+
+export * from './typed-services';
+
 export * from './wrapped-client-grpc';
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { RetryBudget } from './retry-budget';
+
+describe('RetryBudget', () => {
+    it('starts full and allows retries', () => {
+        const budget = new RetryBudget(10, 0.1);
+
+        assert.equal(budget.getTokens(), 10);
+        assert.equal(budget.canRetry(), true);
+    });
+
+    it('costs one token per failure and stops retries at half capacity', () => {
+        const budget = new RetryBudget(10, 0.1);
+
+        for (let i = 0; i < 4; i++) budget.recordFailure();
+        assert.equal(budget.getTokens(), 6);
+        assert.equal(budget.canRetry(), true);
+
+        budget.recordFailure();
+        assert.equal(budget.getTokens(), 5);
+        assert.equal(budget.canRetry(), false);
+    });
+
+    it('never drops below zero', () => {
+        const budget = new RetryBudget(2, 1);
+
+        for (let i = 0; i < 5; i++) budget.recordFailure();
+        assert.equal(budget.getTokens(), 0);
+    });
+
+    it('refunds tokenRatio per success up to the capacity', () => {
+        const budget = new RetryBudget(10, 0.5);
+
+        for (let i = 0; i < 5; i++) budget.recordFailure();
+        budget.recordSuccess();
+        assert.equal(budget.getTokens(), 5.5);
+        assert.equal(budget.canRetry(), true);
+
+        for (let i = 0; i < 20; i++) budget.recordSuccess();
+        assert.equal(budget.getTokens(), 10);
+    });
+});
@@ -0,0 +1,38 @@
+export interface RetryBudgetOptions {
+    enabled?: boolean;
+    maxTokens?: number; // bucket capacity
+    scope?: 'instance' | 'service'; // one bucket per WrappedGrpc instance or per service
+    tokenRatio?: number; // tokens refunded per successful attempt
+}
+
+/**
+ * Token bucket retry throttling (same model as gRPC `retryThrottling`):
+ * every failed attempt costs one token, every success refunds `tokenRatio`,
+ * and retries / hedged attempts are only allowed while the bucket is more than half full.
+ */
+export class RetryBudget {
+    private tokens: number;
+
+    constructor(
+        private readonly maxTokens: number,
+        private readonly tokenRatio: number,
+    ) {
+        this.tokens = maxTokens;
+    }
+
+    canRetry(): boolean {
+        return this.tokens > this.maxTokens / 2;
+    }
+
+    getTokens(): number {
+        return this.tokens;
+    }
+
+    recordFailure(): void {
+        this.tokens = Math.max(0, this.tokens - 1);
+    }
+
+    recordSuccess(): void {
+        this.tokens = Math.min(this.maxTokens, this.tokens + this.tokenRatio);
+    }
+}
@@ -0,0 +1,61 @@
+import type { Observable } from 'rxjs';
+
+import type { AuthServiceClient } from '../generated/auth';
+import type { UserServiceClient } from '../generated/user';
+import type { GrpcMetadataLike } from '../shared';
+
+/**
+ * Client interfaces of the bundled protos, keyed by fully-qualified service name (`package.Service`).
+ * Services from other protos can be added with module augmentation:
+ *
+ * ```ts
+ * declare module '@ecom-co/grpc' {
+ *     interface GrpcServiceRegistry {
+ *         'order.OrderService': OrderServiceClient;
+ *     }
+ * }
+ * ```
+ */
+export interface GrpcServiceRegistry {
+    'auth.AuthService': AuthServiceClient;
+    'user.UserService': UserServiceClient;
+}
+
+export type GrpcServiceName = keyof GrpcServiceRegistry;
+
+/**
+ * Observable client as returned by `WrappedGrpc.getTypedService`: generated methods plus optional call metadata
+ */
+export type TypedServiceClient<T> = {
+    [K in keyof T]: T[K] extends (request: infer TRequest, ...args: any[]) => Observable<infer TResponse>
+        ? (request: TRequest, metadata?: GrpcMetadataLike) => Observable<TResponse>
+        : never;
+};
+
+export interface GrpcAsyncCallOptions {
+    signal?: AbortSignal; // aborting cancels the underlying call and rejects with CANCELLED
+}
+
+/**
+ * Promise client as returned by `WrappedGrpc.getAsyncService`: each call resolves with the first response message
+ */
+export type AsyncServiceClient<T> = {
+    [K in keyof T]: T[K] extends (request: infer TRequest, ...args: any[]) => Observable<infer TResponse>
+        ? (request: TRequest, metadata?: GrpcMetadataLike, options?: GrpcAsyncCallOptions) => Promise<TResponse>
+        : never;
+};
+
+export interface TypedServiceOptions {
+    promise?: boolean; // return Promise-returning methods instead of Observables
+}
+
+/**
+ * Split `package.Service` into the package and the service name ClientGrpc looks up
+ */
+export const parseServiceName = (name: string): { packageName: string; serviceName: string } => {
+    const index = name.lastIndexOf('.');
+
+    return index === -1
+        ? { packageName: '', serviceName: name }
+        : { packageName: name.slice(0, index), serviceName: name.slice(index + 1) };
+};
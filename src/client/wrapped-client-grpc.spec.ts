@@ -0,0 +1,179 @@
+import { ClientGrpc } from '@nestjs/microservices';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { firstValueFrom, Observable } from 'rxjs';
+
+import { GrpcClientException, WrappedGrpc } from './wrapped-client-grpc';
+
+interface UserService {
+    getUser(request: { id: string }): Observable<{ id: string }>;
+}
+
+/**
+ * ClientGrpc whose `UserService.getUser` answers with `respond` after `delay` ms, counting the calls that reach it
+ */
+const createClient = (respond: () => { id: string } | Error, delay = 0) => {
+    const backend = { calls: 0 };
+    const service = {
+        getUser: () =>
+            new Observable<{ id: string }>((subscriber) => {
+                backend.calls++;
+
+                const timer = setTimeout(() => {
+                    const response = respond();
+
+                    if (response instanceof Error) {
+                        subscriber.error(response);
+                    } else {
+                        subscriber.next(response);
+                        subscriber.complete();
+                    }
+                }, delay);
+
+                return () => clearTimeout(timer);
+            }),
+    };
+    const client = {
+        getClientByServiceName: () => ({ getUser: {} }),
+        getService: () => service,
+    } as unknown as ClientGrpc;
+
+    return { backend, client };
+};
+
+const unavailable = () => Object.assign(new Error('backend down'), { code: 14 });
+
+describe('WrappedGrpc', () => {
+    describe('circuit breaker', () => {
+        const opossum = {
+            allowWarmUp: false,
+            enabled: true,
+            errorThresholdPercentage: 50,
+            resetTimeout: 50,
+            volumeThreshold: 3,
+        };
+
+        it('rejects calls after the breaker opened without reaching the backend', async () => {
+            const { backend, client } = createClient(unavailable);
+            const users = new WrappedGrpc(client, { enableLogging: false, opossum }).getService<UserService>(
+                'UserService',
+            );
+
+            for (let i = 0; i < 6; i++) {
+                await firstValueFrom(users.getUser({ id: '1' })).catch(() => undefined);
+            }
+
+            assert.equal(backend.calls, 3);
+        });
+
+        it('rejects a call made as soon as the threshold-reaching failure is delivered', async () => {
+            const { backend, client } = createClient(unavailable);
+            const users = new WrappedGrpc(client, { enableLogging: false, opossum }).getService<UserService>(
+                'UserService',
+            );
+
+            // Each call is made synchronously from the previous call's error callback
+            const chain = (remaining: number): Promise<void> =>
+                new Promise((resolve) =>
+                    users.getUser({ id: '1' }).subscribe({
+                        error: () => resolve(remaining > 1 ? chain(remaining - 1) : undefined),
+                    }),
+                );
+
+            await chain(4);
+
+            assert.equal(backend.calls, 3);
+        });
+
+        it('has opened the breaker when the failing call errors', async () => {
+            const { client } = createClient(unavailable);
+            const grpc = new WrappedGrpc(client, { enableLogging: false, opossum });
+            const users = grpc.getService<UserService>('UserService');
+
+            for (let i = 0; i < 3; i++) {
+                await assert.rejects(firstValueFrom(users.getUser({ id: '1' })));
+            }
+
+            assert.equal(grpc.getCircuitBreaker('UserService.getUser')?.state, 'OPEN');
+            assert.equal(grpc.getCircuitBreaker('UserService.getUser')?.stats.failures, 3);
+        });
+
+        it('closes after a successful half-open probe', async () => {
+            let healthy = false;
+            const { client } = createClient(() => (healthy ? { id: '1' } : unavailable()));
+            const grpc = new WrappedGrpc(client, { enableLogging: false, opossum });
+            const users = grpc.getService<UserService>('UserService');
+
+            for (let i = 0; i < 3; i++) {
+                await firstValueFrom(users.getUser({ id: '1' })).catch(() => undefined);
+            }
+
+            await sleep(80);
+            assert.equal(grpc.getCircuitBreaker('UserService.getUser')?.state, 'HALF_OPEN');
+
+            healthy = true;
+            assert.deepEqual(await firstValueFrom(users.getUser({ id: '1' })), { id: '1' });
+            assert.equal(grpc.getCircuitBreaker('UserService.getUser')?.state, 'CLOSED');
+        });
+    });
+
+    describe('retry budget', () => {
+        const options = {
+            enableLogging: false,
+            idempotent: true,
+            maxRetryDelay: 1,
+            retry: 3,
+            retryBudget: { enabled: true, maxTokens: 4, tokenRatio: 1 },
+        };
+
+        it('stops retrying once failed attempts have spent half of the budget', async () => {
+            const { backend, client } = createClient(unavailable);
+            const users = new WrappedGrpc(client, options).getService<UserService>('UserService');
+
+            await assert.rejects(firstValueFrom(users.getUser({ id: '1' })), /backend down/);
+            assert.equal(backend.calls, 2);
+
+            // No retry left for the next call
+            await assert.rejects(firstValueFrom(users.getUser({ id: '1' })), /backend down/);
+            assert.equal(backend.calls, 3);
+        });
+
+        it('refills the budget with successful attempts', async () => {
+            let healthy = false;
+            const { backend, client } = createClient(() => (healthy ? { id: '1' } : unavailable()));
+            const users = new WrappedGrpc(client, options).getService<UserService>('UserService');
+
+            await assert.rejects(firstValueFrom(users.getUser({ id: '1' })));
+            healthy = true;
+            await firstValueFrom(users.getUser({ id: '1' }));
+            await firstValueFrom(users.getUser({ id: '1' }));
+            healthy = false;
+            backend.calls = 0;
+
+            await assert.rejects(firstValueFrom(users.getUser({ id: '1' })));
+            assert.equal(backend.calls, 2);
+        });
+    });
+
+    describe('timeout', () => {
+        it('fails a slow attempt with DEADLINE_EXCEEDED and retries it', async () => {
+            const { backend, client } = createClient(() => ({ id: '1' }), 200);
+            const users = new WrappedGrpc(client, {
+                enableLogging: false,
+                idempotent: true,
+                maxRetryDelay: 1,
+                retry: 1,
+                timeout: 20,
+            }).getService<UserService>('UserService');
+
+            const error: unknown = await firstValueFrom(users.getUser({ id: '1' })).catch((caught: unknown) => caught);
+
+            assert.ok(error instanceof GrpcClientException);
+            assert.equal(error.code, 4);
+            assert.equal(backend.calls, 2);
+        });
+    });
+});
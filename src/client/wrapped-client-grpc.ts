@@ -4,41 +4,203 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 /* eslint-disable @typescript-eslint/no-unsafe-argument */
 /* eslint-disable @typescript-eslint/no-unsafe-return */
+import { randomUUID } from 'crypto';
+
 import { Logger } from '@nestjs/common';
 
 import {
+    castArray,
     cloneDeep,
+    compact,
+    every,
     forEach,
     get,
+    has,
     includes,
     isArray,
+    isEmpty,
+    isFunction,
+    isInteger,
     isNil,
     isNumber,
     isObject,
+    isPlainObject,
     isString,
     map,
     merge,
+    mergeWith,
+    omit,
     set,
 } from 'lodash';
 
 import CircuitBreaker from 'opossum';
-import { firstValueFrom, Observable, throwError } from 'rxjs';
-import { catchError, retry as rxRetry, timeout } from 'rxjs/operators';
+import {
+    defer,
+    EmptyError,
+    from,
+    isObservable,
+    Observable,
+    of,
+    OperatorFunction,
+    Subscriber,
+    Subscription,
+    throwError,
+    timer,
+} from 'rxjs';
+import { catchError, mergeMap, map as rxMap, retry as rxRetry, take, tap, timeout } from 'rxjs/operators';
+
+import {
+    CircuitBreakerService,
+    GrpcCircuitBreakerInfo,
+    GrpcCircuitBreakerRegistry,
+    GrpcCircuitHealth,
+    GrpcCircuitStateListener,
+} from '../enhancements/circuit-breaker';
+import { DistributedTracer, TraceSpan } from '../enhancements/tracing';
+import {
+    createGrpcMetadata,
+    getGrpcContext,
+    getInheritedDeadline,
+    GRPC_IDEMPOTENCY_KEY_HEADER,
+    isGrpcMetadata,
+} from '../shared';
+
+import { GrpcFallbackOptions, GrpcFallbackSource, markDegraded } from './fallback';
+import { RetryBudget, RetryBudgetOptions } from './retry-budget';
+import {
+    AsyncServiceClient,
+    GrpcAsyncCallOptions,
+    GrpcServiceName,
+    GrpcServiceRegistry,
+    parseServiceName,
+    TypedServiceClient,
+    TypedServiceOptions,
+} from './typed-services';
 
 import type { ClientGrpc } from '@nestjs/microservices';
 
-export interface GrpcOptions {
-    enableLogging?: boolean;
+export type GrpcMetadataHeaders = Record<string, string | string[]>;
+
+export interface GrpcMetadataProviderContext {
+    args: unknown[];
+    methodName: string;
+    serviceName: string;
+}
+
+/**
+ * Produces headers (auth token, tenant, locale, ...) merged into every outgoing call
+ */
+export type GrpcMetadataProvider = (
+    context: GrpcMetadataProviderContext,
+) => GrpcMetadataHeaders | Promise<GrpcMetadataHeaders | undefined> | undefined;
+
+export interface GrpcHedgingOptions {
+    delay?: number; // milliseconds to wait before firing the next attempt
+    enabled?: boolean;
+    maxAttempts?: number; // total attempts, including the first one
+}
+
+/**
+ * Call behaviour that can be tuned globally or overridden per service / method
+ */
+export interface GrpcCallOptions {
+    fallback?: GrpcFallbackOptions; // response for unary calls while the circuit is open (usually set per method)
+    /**
+     * Fire parallel attempts for slow unary calls and take the first success.
+     * Only enable for idempotent methods; takes precedence over `retry`.
+     */
+    hedging?: GrpcHedgingOptions;
+    /**
+     * Send an `idempotency-key` header generated per logical call and reused across retries,
+     * so servers using GrpcIdempotencyInterceptor can deduplicate them
+     */
+    idempotencyKey?: boolean;
+    /**
+     * Whether the method is safe to repeat (default false). Non-idempotent methods are only retried when an
+     * idempotency key is sent, and are never hedged.
+     */
+    idempotent?: boolean;
     maxRetryDelay?: number; // maximum delay between retries in milliseconds
+    metadata?: GrpcMetadataHeaders; // static headers for these calls
     opossum?: Partial<CircuitBreaker.Options> & {
         enabled?: boolean;
+        halfOpenMaxCalls?: number; // probes let through at once while half-open (default 1)
     };
+    propagateDeadline?: boolean; // send a real gRPC deadline (grpc-timeout) with each call
     retry?: number;
     retryableCodes?: number[]; // gRPC status codes that should be retried
-    sensitiveFields?: string[]; // fields to sanitize in logs
+    retryJitter?: boolean; // full-jitter backoff: random delay in [0, backoff]
+    streamIdleTimeout?: number; // max milliseconds between stream messages (0 = disabled)
+    streamTimeout?: number; // max total stream duration in milliseconds (0 = disabled)
     timeout?: number; // milliseconds
 }
 
+export interface GrpcOptions extends GrpcCallOptions {
+    /**
+     * Use the named breakers (and config) of this service instead of private ones, so breakers are shared with
+     * other WrappedGrpc instances and application code. `opossum.enabled` still decides which methods use them.
+     */
+    circuitBreakerService?: CircuitBreakerService;
+    enableLogging?: boolean;
+    forwardContextMetadata?: boolean; // forward correlation / request / trace ids of the request being handled
+    /**
+     * Client interceptors. An array is placed outside the built-in ones (tracing, circuit breaker, logging,
+     * stream timeout, retry, retry budget, timeout); a function receives the built-ins and returns the full chain.
+     */
+    interceptors?: ((defaults: GrpcClientInterceptor[]) => GrpcClientInterceptor[]) | GrpcClientInterceptor[];
+    metadataProviders?: GrpcMetadataProvider[];
+    /**
+     * Per-service / per-method overrides, keyed by `Service.Method` or `Service.*`.
+     * Resolution order: global options → `Service.*` → `Service.Method`.
+     */
+    overrides?: Record<string, GrpcCallOptions>;
+    retryBudget?: RetryBudgetOptions; // caps retries and hedged attempts during outages
+    sensitiveFields?: string[]; // fields to sanitize in logs
+    /**
+     * Record a client span per call, child of the span of the request being handled, and send its
+     * `traceparent` to the server. Without a tracer the incoming trace context is still forwarded.
+     */
+    tracer?: DistributedTracer;
+}
+
+export type ResolvedCallOptions = Required<GrpcCallOptions>;
+
+export type GrpcCallType = 'bidiStream' | 'clientStream' | 'serverStream' | 'unary';
+
+/**
+ * State of a single proxied method call, shared by every interceptor in the chain.
+ * `args` and `metadata` may be modified by interceptors before calling `next()`.
+ */
+export interface GrpcClientCallContext {
+    activeSpan?: TraceSpan; // span active when the call was made, parent of the client span
+    args: unknown[];
+    callType: GrpcCallType;
+    forwardedMetadata?: GrpcMetadataHeaders;
+    idempotencyKey?: string;
+    inheritedDeadline?: Date;
+    key: string; // `Service.Method`
+    metadata: GrpcMetadataHeaders; // extra headers, applied after metadata providers
+    methodName: string;
+    options: ResolvedCallOptions;
+    retryBudget: null | RetryBudget;
+    serviceName: string;
+}
+
+/**
+ * Client-side middleware around every call made through `WrappedGrpc.getService`.
+ * `next()` returns the (cold) Observable of the rest of the chain and may be subscribed more than once.
+ */
+export interface GrpcClientInterceptor {
+    intercept(context: GrpcClientCallContext, next: () => Observable<unknown>): Observable<unknown>;
+    name?: string;
+}
+
+/**
+ * Built-in interceptors, outermost first
+ */
+export type DefaultGrpcClientInterceptorName =
+    'circuitBreaker' | 'logging' | 'retry' | 'retryBudget' | 'streamTimeout' | 'timeout' | 'tracing';
+
 export class GrpcClientException extends Error {
     constructor(
         message: string,
@@ -56,22 +218,49 @@ export class GrpcClientException extends Error {
     }
 }
 
+/**
+ * Raised inside the circuit breaker when the subscriber unsubscribes before the call settles
+ */
+class GrpcCallCancelledException extends GrpcClientException {
+    constructor(key: string) {
+        super(`Call ${key} was cancelled`, 1);
+        this.name = 'GrpcCallCancelledException';
+    }
+}
+
 export class WrappedGrpc implements ClientGrpc {
-    private readonly circuitBreakers = new Map<string, CircuitBreaker>();
-    private readonly defaultOptions: Required<GrpcOptions> = {
+    private readonly circuitBreakers: GrpcCircuitBreakerRegistry;
+    private readonly circuitBreakerService?: CircuitBreakerService;
+    private readonly lastKnownGood = new Map<string, Map<string, { response: unknown; timestamp: number }>>();
+    private readonly defaultOptions: Required<Omit<GrpcOptions, 'circuitBreakerService' | 'tracer'>> = {
         enableLogging: true,
+        fallback: {},
+        forwardContextMetadata: true,
+        hedging: {
+            delay: 100,
+            enabled: false,
+            maxAttempts: 2,
+        },
+        idempotencyKey: false,
+        idempotent: false, // retry only methods marked idempotent or sent with an idempotency key
+        interceptors: [],
         maxRetryDelay: 10000, // 10 seconds default
+        metadata: {},
+        metadataProviders: [],
         opossum: {
             name: 'grpc-circuit-breaker',
             allowWarmUp: true, // allow warm-up period
             enabled: false,
             errorThresholdPercentage: 50, // 50% errors before opening circuit
+            halfOpenMaxCalls: 1, // one probe at a time while half-open
             resetTimeout: 30000, // 30 seconds to wait before attempting to close circuit
             rollingCountBuckets: 10, // 10 buckets in rolling window
             rollingCountTimeout: 10000, // 10 seconds rolling window
             timeout: 30000, // 30 seconds default
             volumeThreshold: 10, // minimum 10 requests before circuit can open
         },
+        overrides: {},
+        propagateDeadline: true,
         retry: 0,
         retryableCodes: [
             1, // CANCELLED
@@ -82,22 +271,45 @@ export class WrappedGrpc implements ClientGrpc {
             14, // UNAVAILABLE
             15, // DATA_LOSS
         ],
+        retryBudget: {
+            enabled: true,
+            maxTokens: 10,
+            scope: 'instance',
+            tokenRatio: 0.1,
+        },
+        retryJitter: true,
         sensitiveFields: ['password', 'token', 'secret', 'key', 'authorization', 'auth'],
+        streamIdleTimeout: 0,
+        streamTimeout: 0,
         timeout: 30000, // 30 seconds default
     };
 
+    private readonly interceptors: GrpcClientInterceptor[];
+
     private readonly logger = new Logger(WrappedGrpc.name);
 
+    private readonly resolvedCallOptions = new Map<string, ResolvedCallOptions>();
+
+    private readonly retryBudgets = new Map<string, RetryBudget>();
+
     private readonly sensitiveFields: string[];
 
+    private readonly tracer?: DistributedTracer;
+
     constructor(
         private readonly clientGrpc: ClientGrpc,
         options: GrpcOptions = {},
     ) {
+        const { circuitBreakerService, tracer, ...rest } = options;
+
         this.validateOptions(options);
         // Use lodash merge for deep merging and safety
-        this.defaultOptions = merge({}, this.defaultOptions, options);
+        this.defaultOptions = merge({}, this.defaultOptions, rest);
+        this.circuitBreakerService = circuitBreakerService;
+        this.tracer = tracer;
+        this.circuitBreakers = circuitBreakerService?.getRegistry() ?? new GrpcCircuitBreakerRegistry();
         this.sensitiveFields = this.defaultOptions.sensitiveFields;
+        this.interceptors = this.buildInterceptorChain(options.interceptors);
     }
 
     /**
@@ -118,125 +330,462 @@ export class WrappedGrpc implements ClientGrpc {
         };
     }
 
-    private createPipeOperators(serviceName: string, methodName: string): any[] {
-        const pipeOps: any[] = [];
+    private buildInterceptorChain(option: GrpcOptions['interceptors']): GrpcClientInterceptor[] {
+        const defaults = this.createDefaultInterceptors();
 
-        // Add timeout if configured
-        if (this.defaultOptions.timeout > 0) {
-            pipeOps.push(timeout(this.defaultOptions.timeout));
+        if (isFunction(option)) {
+            return option(defaults);
         }
 
-        // Add retry if configured
-        if (this.defaultOptions.retry > 0) {
-            pipeOps.push(
-                rxRetry({
-                    count: this.defaultOptions.retry,
-                    delay: (error, retryCount) => {
-                        // Only retry if error code is in retryable codes
-                        const errorCode = get(error, 'code');
+        return [...(option ?? []), ...defaults];
+    }
 
-                        if (isNil(errorCode) || !includes(this.defaultOptions.retryableCodes, errorCode)) {
-                            // Don't retry for non-retryable codes
-                            return throwError(() => error);
-                        }
+    /**
+     * Circuit breaking for streams tracks stream establishment: first message (or completion) counts as success.
+     * Unsubscribing before that cancels the call, which is left out of the breaker statistics.
+     * The stream only ends once its outcome is recorded.
+     */
+    private breakStream(stream: Observable<unknown>, call: GrpcClientCallContext): Observable<unknown> {
+        return new Observable((subscriber) => {
+            const controller = new AbortController();
+            let cancel: (() => void) | undefined;
+            let established = false;
+            let settled = false;
+            let subscription: Subscription | undefined;
+            let terminate: (() => void) | undefined; // end of the stream received before the outcome was recorded
+            const end = (fn: () => void) => (settled ? fn() : (terminate = fn));
 
-                        if (this.defaultOptions.enableLogging) {
-                            this.logger.warn(
-                                `Retrying ${serviceName}.${methodName} (attempt ${retryCount + 1}/${this.defaultOptions.retry + 1}) due to error code: ${error.code}`,
-                            );
-                        }
+            this.circuitBreakers
+                .fire(
+                    call.key,
+                    () =>
+                        new Promise<void>((resolve, reject) => {
+                            if (subscriber.closed) {
+                                reject(new GrpcCallCancelledException(call.key));
 
-                        return new Observable((subscriber) => {
-                            setTimeout(
-                                () => subscriber.next(undefined),
-                                Math.min(1000 * Math.pow(2, retryCount), this.defaultOptions.maxRetryDelay),
-                            );
-                            subscriber.complete();
-                        });
-                    },
-                }),
-            );
-        }
+                                return;
+                            }
 
-        // Add error handling
-        pipeOps.push(
-            catchError((err) => {
-                if (this.defaultOptions.enableLogging) {
-                    this.logger.error(
-                        `gRPC Error in ${serviceName}.${methodName}:`,
-                        this.buildErrorContext(err, serviceName, methodName),
-                    );
-                }
+                            const establish = () => {
+                                established = true;
+                                cancel = undefined;
+                                resolve();
+                            };
+
+                            cancel = () => reject(new GrpcCallCancelledException(call.key));
+                            subscription = stream.subscribe({
+                                complete: () => {
+                                    establish();
+                                    end(() => subscriber.complete());
+                                },
+                                error: (error) => {
+                                    if (established) {
+                                        end(() => subscriber.error(error));
 
-                return throwError(
+                                        return;
+                                    }
+
+                                    // Forwarded by handleBreakerError once recorded
+                                    cancel = undefined;
+                                    reject(error);
+                                },
+                                next: (value) => {
+                                    establish();
+                                    subscriber.next(value);
+                                },
+                            });
+                        }),
+                    controller.signal,
+                )
+                .then(() => {
+                    settled = true;
+                    terminate?.();
+                })
+                .catch((error) => this.handleBreakerError(error, subscriber, call, () => subscription?.unsubscribe()));
+
+            return () => {
+                controller.abort();
+                subscription?.unsubscribe();
+                cancel?.();
+                cancel = undefined;
+            };
+        });
+    }
+
+    /**
+     * Unary calls go through the breaker as a Promise of the first response.
+     * Unsubscribing cancels the in-flight call; it is counted as a cancellation, neither a success nor a failure.
+     */
+    private breakUnary(observable: Observable<unknown>, call: GrpcClientCallContext): Observable<unknown> {
+        return new Observable((subscriber) => {
+            const controller = new AbortController();
+            let cancel: (() => void) | undefined;
+
+            this.circuitBreakers
+                .fire(
+                    call.key,
                     () =>
-                        new GrpcClientException(
-                            err?.message ?? 'gRPC call failed',
-                            err?.code,
-                            err?.details,
-                            err?.metadata,
-                        ),
+                        new Promise<unknown>((resolve, reject) => {
+                            if (subscriber.closed) {
+                                reject(new GrpcCallCancelledException(call.key));
+
+                                return;
+                            }
+
+                            const subscription = observable.pipe(take(1)).subscribe({
+                                complete: () => {
+                                    cancel = undefined;
+                                    // No-op once the first value has resolved
+                                    reject(new EmptyError());
+                                },
+                                error: (error) => {
+                                    cancel = undefined;
+                                    reject(error);
+                                },
+                                next: (value) => {
+                                    cancel = undefined;
+                                    resolve(value);
+                                },
+                            });
+
+                            if (!subscription.closed) {
+                                cancel = () => {
+                                    subscription.unsubscribe();
+                                    reject(new GrpcCallCancelledException(call.key));
+                                };
+                            }
+                        }),
+                    controller.signal,
+                )
+                .then((result: unknown) => {
+                    subscriber.next(result);
+                    subscriber.complete();
+                })
+                .catch((error) => this.handleBreakerError(error, subscriber, call));
+
+            return () => {
+                controller.abort();
+                cancel?.();
+                cancel = undefined;
+            };
+        });
+    }
+
+    private createCallContext(serviceName: string, methodName: string, args: any[]): GrpcClientCallContext {
+        const options = this.resolveCallOptions(serviceName, methodName);
+
+        return {
+            activeSpan: this.tracer?.getActiveSpan(),
+            args,
+            callType: this.detectCallType(serviceName, methodName, args),
+            forwardedMetadata: this.defaultOptions.forwardContextMetadata ? getGrpcContext()?.metadata : undefined,
+            idempotencyKey: options.idempotencyKey ? randomUUID() : undefined,
+            inheritedDeadline: getInheritedDeadline(),
+            key: `${serviceName}.${methodName}`,
+            metadata: {},
+            methodName,
+            options,
+            retryBudget: this.getRetryBudget(serviceName),
+            serviceName,
+        };
+    }
+
+    /**
+     * Built-in behaviour as interceptors, outermost first:
+     * tracing → circuit breaker → logging / error mapping → stream total timeout → retry / hedging → retry budget
+     * → timeout
+     */
+    private createDefaultInterceptors(): GrpcClientInterceptor[] {
+        const interceptors: Record<DefaultGrpcClientInterceptorName, GrpcClientInterceptor['intercept']> = {
+            circuitBreaker: (call, next) => this.interceptCircuitBreaker(call, next),
+            logging: (call, next) => next().pipe(this.createErrorOperator(call)),
+            retry: (call, next) => this.interceptRetry(call, next),
+            retryBudget: (call, next) =>
+                call.retryBudget && call.callType !== 'bidiStream' && call.callType !== 'serverStream'
+                    ? next().pipe(this.trackRetryBudget(call))
+                    : next(),
+            streamTimeout: (call, next) =>
+                this.isStreaming(call) && call.options.streamTimeout > 0
+                    ? next().pipe(this.totalTimeout(call.options.streamTimeout, call))
+                    : next(),
+            timeout: (call, next) => this.interceptTimeout(call, next),
+            tracing: (call, next) => this.interceptTracing(call, next),
+        };
+
+        const order: DefaultGrpcClientInterceptorName[] = [
+            'tracing',
+            'circuitBreaker',
+            'logging',
+            'streamTimeout',
+            'retry',
+            'retryBudget',
+            'timeout',
+        ];
+
+        return map(order, (name) => ({ name, intercept: interceptors[name] }));
+    }
+
+    /**
+     * Map any error to GrpcClientException (with logging)
+     */
+    private createErrorOperator<T>(call: GrpcClientCallContext): OperatorFunction<T, T> {
+        return catchError((err) => {
+            if (this.defaultOptions.enableLogging) {
+                this.logger.error(
+                    `gRPC Error in ${call.key}:`,
+                    this.buildErrorContext(err, call.serviceName, call.methodName),
                 );
-            }),
-        );
+            }
 
-        return pipeOps;
+            return throwError(() => this.toClientException(err));
+        });
+    }
+
+    /**
+     * Invoke the gRPC method on every subscription so each attempt gets fresh headers and deadline.
+     * Fails fast with DEADLINE_EXCEEDED when the inherited deadline is already exhausted.
+     */
+    private deferCall<T>(
+        invoke: (headers: GrpcMetadataHeaders) => Observable<T>,
+        call: GrpcClientCallContext,
+    ): Observable<T> {
+        return defer(() => {
+            if (call.inheritedDeadline && call.inheritedDeadline.getTime() <= Date.now()) {
+                return throwError(() => new GrpcClientException('Deadline exceeded before the call was started', 4));
+            }
+
+            return from(this.resolveHeaders(call)).pipe(mergeMap((headers) => invoke(headers)));
+        });
+    }
+
+    /**
+     * Detect the RPC kind from the underlying grpc-js client definition,
+     * falling back to the shape of the arguments when it isn't available
+     */
+    private detectCallType(serviceName: string, methodName: string, args: any[]): GrpcCallType {
+        let definition: undefined | { requestStream?: boolean; responseStream?: boolean };
+
+        try {
+            definition = get(this.clientGrpc.getClientByServiceName(serviceName), methodName);
+        } catch {
+            definition = undefined;
+        }
+
+        const requestStream = definition ? !!definition.requestStream : isObservable(args[0]);
+        const responseStream = !!definition?.responseStream;
+
+        if (requestStream) {
+            return responseStream ? 'bidiStream' : 'clientStream';
+        }
+
+        return responseStream ? 'serverStream' : 'unary';
+    }
+
+    /**
+     * Read `retryAfter` (seconds, as set by GrpcUnavailableException) from error details, in milliseconds
+     */
+    private extractRetryAfter(error: any): number | undefined {
+        let details = error?.details;
+
+        if (isString(details)) {
+            try {
+                details = JSON.parse(details);
+            } catch {
+                return undefined;
+            }
+        }
+
+        const retryAfter = get(details, 'retryAfter') ?? get(details, 'details.retryAfter');
+
+        return isNumber(retryAfter) && retryAfter >= 0 ? retryAfter * 1000 : undefined;
     }
 
     getClientByServiceName<T = any>(name: string): T {
         return this.clientGrpc.getClientByServiceName<T>(name);
     }
 
-    private getOrCreateCircuitBreaker(
-        serviceName: string,
-        methodName: string,
-    ): CircuitBreaker<unknown[], unknown> | null {
-        if (!this.defaultOptions.opossum.enabled) {
-            return null;
+    /**
+     * Promise facade over `getService`: methods take `(request, metadata?, { signal }?)` and resolve
+     * with the first response. Errors are the same GrpcClientException as on the Observable path.
+     */
+    getAsyncService<T extends object>(name: string): AsyncServiceClient<T> {
+        const service = this.getService<Record<string, unknown>>(name);
+
+        return new Proxy(service, {
+            get: (target, prop) => {
+                const value = target[prop as string];
+
+                if (!isFunction(value)) {
+                    return value;
+                }
+
+                return (request: unknown, metadata?: unknown, options: GrpcAsyncCallOptions = {}) => {
+                    const result = isNil(metadata) ? value(request) : value(request, metadata);
+
+                    return isObservable(result)
+                        ? this.toPromise(result, `${name}.${String(prop)}`, options.signal)
+                        : result;
+                };
+            },
+        }) as AsyncServiceClient<T>;
+    }
+
+    /**
+     * Errors rejected by the breaker: cancellations (counted by the registry) are only logged,
+     * anything else is forwarded to the subscriber
+     */
+    private handleBreakerError(
+        error: unknown,
+        subscriber: Subscriber<unknown>,
+        call: GrpcClientCallContext,
+        cleanup?: () => void,
+    ): void {
+        cleanup?.();
+
+        if (error instanceof GrpcCallCancelledException) {
+            if (this.defaultOptions.enableLogging) {
+                this.logger.warn(`Call ${call.key} cancelled by the subscriber`);
+            }
+
+            return;
         }
 
-        const key = `${serviceName}.${methodName}`;
+        // Make sure we handle all errors properly to prevent server crashes
+        if (subscriber.closed) {
+            return;
+        }
 
-        if (!this.circuitBreakers.has(key)) {
-            const options: CircuitBreaker.Options = {
-                name: `${this.defaultOptions.opossum.name}-${key}`,
-                allowWarmUp: this.defaultOptions.opossum.allowWarmUp,
-                errorThresholdPercentage: this.defaultOptions.opossum.errorThresholdPercentage,
-                resetTimeout: this.defaultOptions.opossum.resetTimeout,
-                rollingCountBuckets: this.defaultOptions.opossum.rollingCountBuckets,
-                rollingCountTimeout: this.defaultOptions.opossum.rollingCountTimeout,
-                timeout: this.defaultOptions.opossum.timeout,
-                volumeThreshold: this.defaultOptions.opossum.volumeThreshold,
-            };
+        if (this.defaultOptions.enableLogging) {
+            this.logger.error(
+                `Circuit breaker caught error in ${call.key}:`,
+                this.buildErrorContext(error, call.serviceName, call.methodName),
+            );
+        }
 
-            // Create a circuit breaker that will be used to wrap the actual function calls
-            const circuitBreaker = new CircuitBreaker(async (fn: () => Promise<unknown>) => await fn(), options);
+        subscriber.error(error);
+    }
 
-            // Add event listeners for logging
-            circuitBreaker.on('open', () => {
-                this.logger.warn(`Circuit breaker opened for ${key}`);
-            });
+    private getOrCreateCircuitBreaker(call: GrpcClientCallContext): CircuitBreaker<unknown[], unknown> | null {
+        const {
+            key,
+            options: { opossum },
+        } = call;
 
-            circuitBreaker.on('close', () => {
-                this.logger.log(`Circuit breaker closed for ${key}`);
-            });
+        if (!opossum.enabled) {
+            return null;
+        }
 
-            circuitBreaker.on('halfOpen', () => {
-                this.logger.log(`Circuit breaker half-open for ${key}`);
-            });
+        if (this.circuitBreakerService) {
+            return this.circuitBreakers.getOrCreate(key, this.circuitBreakerService.createBreakerOptions(key));
+        }
 
-            // Double-check locking pattern to avoid race condition
-            if (!this.circuitBreakers.has(key)) {
-                this.circuitBreakers.set(key, circuitBreaker);
-            } else {
-                // Another async operation created the circuit breaker, close this one
-                circuitBreaker.close();
+        return this.circuitBreakers.getOrCreate(key, {
+            name: `${opossum.name}-${key}`,
+            allowWarmUp: opossum.allowWarmUp,
+            errorThresholdPercentage: opossum.errorThresholdPercentage,
+            halfOpenMaxCalls: opossum.halfOpenMaxCalls,
+            resetTimeout: opossum.resetTimeout,
+            rollingCountBuckets: opossum.rollingCountBuckets,
+            rollingCountTimeout: opossum.rollingCountTimeout,
+            timeout: opossum.timeout,
+            volumeThreshold: opossum.volumeThreshold,
+        });
+    }
 
-                return this.circuitBreakers.get(key) || null;
+    /**
+     * Build the arguments of one attempt `(data, metadata, callOptions)`: resolved headers, the idempotency key
+     * (same for every attempt of a logical call) and the gRPC deadline. Metadata passed by the caller wins.
+     */
+    private prepareCallArgs(args: any[], call: GrpcClientCallContext, headers: GrpcMetadataHeaders): any[] {
+        const [data, metadata, options, ...rest] = args;
+        const deadline = this.resolveCallDeadline(options, call);
+        const callHeaders: GrpcMetadataHeaders = {
+            ...headers,
+            ...(call.idempotencyKey && { [GRPC_IDEMPOTENCY_KEY_HEADER]: call.idempotencyKey }),
+        };
+
+        if (!deadline && isEmpty(callHeaders)) {
+            return args;
+        }
+
+        const callerMetadata = isGrpcMetadata(metadata) ? metadata : undefined;
+        // Clone so every attempt starts from what the caller passed
+        const callMetadata = callerMetadata?.clone() ?? createGrpcMetadata();
+
+        forEach(callHeaders, (value, key) => {
+            if (callerMetadata && callerMetadata.get(key).length > 0) {
+                return;
             }
+
+            forEach(castArray(value), (item, index) =>
+                index === 0 ? callMetadata.set(key, item) : callMetadata.add(key, item),
+            );
+        });
+
+        // grpc-js requires a call options object whenever metadata is passed
+        return [data, callMetadata, deadline ? { ...options, deadline } : { ...options }, ...rest];
+    }
+
+    private getRetryBudget(serviceName: string): null | RetryBudget {
+        const { enabled, maxTokens, scope, tokenRatio } = this.defaultOptions.retryBudget;
+
+        if (!enabled) {
+            return null;
+        }
+
+        const key = scope === 'service' ? serviceName : '*';
+        let budget = this.retryBudgets.get(key);
+
+        if (!budget) {
+            budget = new RetryBudget(maxTokens ?? 10, tokenRatio ?? 0.1);
+            this.retryBudgets.set(key, budget);
         }
 
-        return this.circuitBreakers.get(key) || null;
+        return budget;
+    }
+
+    /**
+     * Breaker of a method (`service.method`) with its state and rolling stats
+     */
+    getCircuitBreaker(key: string): GrpcCircuitBreakerInfo | undefined {
+        return this.circuitBreakers.getInfo(key);
+    }
+
+    /**
+     * All breakers created so far (one per called `service.method`)
+     */
+    getCircuitBreakers(): GrpcCircuitBreakerInfo[] {
+        return this.circuitBreakers.list();
+    }
+
+    getCircuitHealth(): GrpcCircuitHealth {
+        return this.circuitBreakers.getHealth();
+    }
+
+    /**
+     * Listen to open / half-open / close transitions of every breaker; returns an unsubscribe function
+     */
+    onCircuitStateChange(listener: GrpcCircuitStateListener): () => void {
+        return this.circuitBreakers.onStateChange(listener);
+    }
+
+    /**
+     * Force a breaker open (e.g. during maintenance of the downstream service) until closed or reset.
+     * Works before the method's first call: its breaker is created open.
+     */
+    openCircuit(key: string): boolean {
+        return this.circuitBreakers.open(key);
+    }
+
+    closeCircuit(key: string): boolean {
+        return this.circuitBreakers.close(key);
+    }
+
+    /**
+     * Replace a breaker with a fresh closed one, dropping its stats
+     */
+    resetCircuit(key: string): boolean {
+        return this.circuitBreakers.reset(key);
     }
 
     getService<T extends object>(name: string): T {
@@ -256,10 +805,18 @@ export class WrappedGrpc implements ClientGrpc {
                             });
                         }
 
+                        // gRPC observables are cold: this only probes the return type, nothing is sent yet
                         const result = (value as any).apply(target, args);
 
                         if (result && typeof result === 'object' && typeof result.toPromise === 'function') {
-                            return this.wrapWithCircuitBreaker(result, name, methodName);
+                            const call = this.createCallContext(name, methodName, args);
+                            const transport = this.deferCall(
+                                (headers) =>
+                                    (value as any).apply(target, this.prepareCallArgs(call.args, call, headers)),
+                                call,
+                            );
+
+                            return this.runInterceptors(call, transport);
                         }
 
                         return result;
@@ -271,22 +828,515 @@ export class WrappedGrpc implements ClientGrpc {
         });
     }
 
+    /**
+     * Typed client for a service of the bundled protos, e.g. `getTypedService('user.UserService')`
+     */
+    getTypedService<N extends GrpcServiceName>(name: N): TypedServiceClient<GrpcServiceRegistry[N]>;
+    getTypedService<N extends GrpcServiceName>(
+        name: N,
+        options: TypedServiceOptions & { promise: true },
+    ): AsyncServiceClient<GrpcServiceRegistry[N]>;
+    getTypedService<N extends GrpcServiceName>(
+        name: N,
+        options: TypedServiceOptions = {},
+    ): AsyncServiceClient<GrpcServiceRegistry[N]> | TypedServiceClient<GrpcServiceRegistry[N]> {
+        // ClientGrpc looks services up by their unqualified name
+        const { serviceName } = parseServiceName(name);
+
+        return options.promise
+            ? this.getAsyncService<GrpcServiceRegistry[N]>(serviceName)
+            : this.getService<TypedServiceClient<GrpcServiceRegistry[N]>>(serviceName);
+    }
+
+    /**
+     * Run the interceptor chain; the innermost `next()` is the gRPC call itself
+     */
+    private runInterceptors<T>(call: GrpcClientCallContext, transport: Observable<T>): Observable<T> {
+        const dispatch = (index: number): Observable<unknown> =>
+            index < this.interceptors.length
+                ? this.interceptors[index].intercept(call, () => dispatch(index + 1))
+                : transport;
+
+        return defer(() => dispatch(0)) as Observable<T>;
+    }
+
+    private toClientException(err: any): GrpcClientException {
+        return err instanceof GrpcClientException
+            ? err
+            : new GrpcClientException(err?.message ?? 'gRPC call failed', err?.code, err?.details, err?.metadata);
+    }
+
+    /**
+     * Resolve with the first message; aborting the signal unsubscribes, which cancels the call
+     */
+    private toPromise<T>(source: Observable<T>, key: string, signal?: AbortSignal): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const createCancelledError = () => new GrpcClientException(`Call ${key} was cancelled`, 1, signal?.reason);
+
+            if (signal?.aborted) {
+                reject(createCancelledError());
+
+                return;
+            }
+
+            const onAbort = () => {
+                subscription.unsubscribe();
+                reject(createCancelledError());
+            };
+            const subscription = source.pipe(take(1)).subscribe({
+                complete: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    // No-op once a message has resolved the promise
+                    reject(new GrpcClientException(`Call ${key} completed without a response`, 2));
+                },
+                error: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(this.toClientException(error));
+                },
+                next: resolve,
+            });
+
+            if (!subscription.closed) {
+                signal?.addEventListener('abort', onAbort, { once: true });
+            }
+        });
+    }
+
+    /**
+     * Response for a call rejected by an open circuit: last known good (if fresh enough) → factory → static value.
+     * Rethrows the breaker error when no source applies.
+     */
+    private serveFallback(error: unknown, call: GrpcClientCallContext): Observable<unknown> {
+        const { factory, lastKnownGood } = call.options.fallback;
+        const serve = (response: unknown, source: GrpcFallbackSource, staleness?: number) => {
+            if (this.defaultOptions.enableLogging) {
+                this.logger.warn(`Circuit open for ${call.key}, serving ${source} fallback`);
+            }
+
+            return markDegraded(response, { reason: 'circuit-open', source, ...(!isNil(staleness) && { staleness }) });
+        };
+
+        if (lastKnownGood) {
+            const cached = this.lastKnownGood.get(call.key)?.get(this.getRequestKey(call));
+            const staleness = cached && Date.now() - cached.timestamp;
+
+            if (cached && (isNil(lastKnownGood.maxStaleness) || staleness! <= lastKnownGood.maxStaleness)) {
+                return of(serve(cached.response, 'lastKnownGood', staleness));
+            }
+        }
+
+        if (factory) {
+            return defer(() => {
+                const response = factory(call.args[0], error);
+
+                return isObservable(response) ? response.pipe(take(1)) : from(Promise.resolve(response));
+            }).pipe(rxMap((response) => serve(response, 'factory')));
+        }
+
+        if (has(call.options.fallback, 'value')) {
+            return of(serve(call.options.fallback.value, 'value'));
+        }
+
+        return throwError(() => error);
+    }
+
+    private getRequestKey(call: GrpcClientCallContext): string {
+        try {
+            return JSON.stringify(call.args[0]) ?? '';
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Remember the latest response per request (bounded, oldest evicted first)
+     */
+    private storeLastKnownGood(call: GrpcClientCallContext, response: unknown): void {
+        const maxEntries = call.options.fallback.lastKnownGood?.maxEntries ?? 100;
+        let responses = this.lastKnownGood.get(call.key);
+
+        if (!responses) {
+            responses = new Map();
+            this.lastKnownGood.set(call.key, responses);
+        }
+
+        const requestKey = this.getRequestKey(call);
+
+        // Re-insert so the most recent request is evicted last
+        responses.delete(requestKey);
+        responses.set(requestKey, { response, timestamp: Date.now() });
+
+        if (responses.size > maxEntries) {
+            responses.delete(responses.keys().next().value!);
+        }
+    }
+
+    /**
+     * Fail the stream with DEADLINE_EXCEEDED once it has been open longer than `ms`
+     */
+    private totalTimeout<T>(ms: number, call: GrpcClientCallContext): OperatorFunction<T, T> {
+        return (source) =>
+            new Observable<T>((subscriber) => {
+                const timeoutId = setTimeout(
+                    () => subscriber.error(new GrpcClientException(`Stream ${call.key} exceeded ${ms}ms`, 4)),
+                    ms,
+                );
+                const subscription = source.subscribe(subscriber);
+
+                return () => {
+                    clearTimeout(timeoutId);
+                    subscription.unsubscribe();
+                };
+            });
+    }
+
+    /**
+     * Hedging: start another attempt every `delay` ms (up to `maxAttempts`) while none has answered,
+     * or right away when the only in-flight attempt fails with a retryable code; first success wins
+     */
+    private hedge<T>(call: GrpcClientCallContext): OperatorFunction<T, T> {
+        const { options: callOptions, retryBudget } = call;
+        const delay = callOptions.hedging.delay ?? 0;
+        const maxAttempts = callOptions.hedging.maxAttempts ?? 1;
+
+        return (source) =>
+            new Observable<T>((subscriber) => {
+                const inFlight = new Set<Subscription>();
+                let launched = 0;
+                let hedgeTimer: NodeJS.Timeout | undefined;
+
+                const cancelAll = () => {
+                    clearTimeout(hedgeTimer);
+                    inFlight.forEach((attempt) => attempt.unsubscribe());
+                    inFlight.clear();
+                };
+
+                const canHedge = () => launched < maxAttempts && (!retryBudget || retryBudget.canRetry());
+
+                const launch = () => {
+                    launched++;
+
+                    if (launched > 1 && this.defaultOptions.enableLogging) {
+                        this.logger.warn(`Hedging ${call.key} (attempt ${launched}/${maxAttempts})`);
+                    }
+
+                    const attempt = new Subscription();
+
+                    inFlight.add(attempt);
+                    attempt.add(
+                        source.subscribe({
+                            complete: () => subscriber.complete(),
+                            error: (error) => {
+                                inFlight.delete(attempt);
+
+                                if (!this.isRetryable(error, call)) {
+                                    cancelAll();
+                                    subscriber.error(error);
+
+                                    return;
+                                }
+
+                                // Another attempt may still succeed
+                                if (inFlight.size > 0) {
+                                    return;
+                                }
+
+                                if (canHedge()) {
+                                    clearTimeout(hedgeTimer);
+                                    launch();
+                                } else {
+                                    cancelAll();
+                                    subscriber.error(error);
+                                }
+                            },
+                            next: (value) => {
+                                inFlight.delete(attempt);
+                                cancelAll();
+                                subscriber.next(value);
+                            },
+                        }),
+                    );
+
+                    if (canHedge() && !subscriber.closed) {
+                        hedgeTimer = setTimeout(() => {
+                            if (canHedge()) {
+                                launch();
+                            }
+                        }, delay);
+                    }
+                };
+
+                launch();
+
+                return cancelAll;
+            });
+    }
+
+    private interceptCircuitBreaker(call: GrpcClientCallContext, next: () => Observable<unknown>): Observable<unknown> {
+        if (!this.getOrCreateCircuitBreaker(call)) {
+            return next();
+        }
+
+        if (this.isStreaming(call)) {
+            return this.breakStream(next(), call);
+        }
+
+        const { fallback } = call.options;
+
+        if (!fallback.factory && !fallback.lastKnownGood && !has(fallback, 'value')) {
+            return this.breakUnary(next(), call);
+        }
+
+        return this.breakUnary(next(), call).pipe(
+            tap((response) => fallback.lastKnownGood && this.storeLastKnownGood(call, response)),
+            catchError((error) =>
+                get(error, 'code') === 'EOPENBREAKER' ? this.serveFallback(error, call) : throwError(() => error),
+            ),
+        );
+    }
+
+    private interceptRetry(call: GrpcClientCallContext, next: () => Observable<unknown>): Observable<unknown> {
+        const { callType, options: callOptions } = call;
+
+        if (callType === 'unary') {
+            // Hedging replaces retry for unary calls
+            if (callOptions.hedging.enabled && callOptions.idempotent) {
+                return next().pipe(this.hedge(call));
+            }
+
+            if (callOptions.retry > 0 && this.isRepeatable(call)) {
+                return next().pipe(
+                    rxRetry({
+                        count: callOptions.retry,
+                        delay: (error, retryCount) => this.retryDelay(error, retryCount, call),
+                    }),
+                );
+            }
+        }
+
+        // Retrying a stream after its first message would replay it; request streams can't be replayed at all
+        if (callType === 'serverStream' && callOptions.retry > 0 && this.isRepeatable(call)) {
+            return defer(() => {
+                let received = false;
+
+                return next().pipe(
+                    tap(() => {
+                        received = true;
+                    }),
+                    rxRetry({
+                        count: callOptions.retry,
+                        delay: (error, retryCount) =>
+                            received ? throwError(() => error) : this.retryDelay(error, retryCount, call),
+                    }),
+                );
+            });
+        }
+
+        return next();
+    }
+
+    /**
+     * Per-attempt timeout for unary / client stream calls, idle timeout between messages for streams.
+     * Both fail with DEADLINE_EXCEEDED, like the gRPC deadline the unary timeout races with.
+     */
+    private interceptTimeout(call: GrpcClientCallContext, next: () => Observable<unknown>): Observable<unknown> {
+        const { options: callOptions } = call;
+        const deadlineExceeded = (message: string) => () => throwError(() => new GrpcClientException(message, 4));
+
+        if (this.isStreaming(call)) {
+            const idle = callOptions.streamIdleTimeout;
+
+            return idle > 0
+                ? next().pipe(timeout({ each: idle, with: deadlineExceeded(`No message received for ${idle}ms`) }))
+                : next();
+        }
+
+        return callOptions.timeout > 0
+            ? next().pipe(
+                  timeout({
+                      each: callOptions.timeout,
+                      with: deadlineExceeded(`Deadline exceeded after ${callOptions.timeout}ms`),
+                  }),
+              )
+            : next();
+    }
+
+    /**
+     * One client span per logical call (retries included), child of the active span (or of the forwarded
+     * `traceparent`), propagated to the server through the call metadata
+     */
+    private interceptTracing(call: GrpcClientCallContext, next: () => Observable<unknown>): Observable<unknown> {
+        const { tracer } = this;
+
+        if (!tracer) {
+            return next();
+        }
+
+        return defer(() => {
+            const parent = call.activeSpan ?? tracer.extract(call.forwardedMetadata) ?? null;
+            const span = tracer.startSpan(call.key, parent, {
+                'rpc.method': call.methodName,
+                'rpc.service': call.serviceName,
+                'rpc.system': 'grpc',
+                'span.kind': 'client',
+            });
+            const finish = (status: 'completed' | 'failed', tags?: Record<string, unknown>) =>
+                span.sampled && tracer.finishSpan(span.spanId, status, tags);
+
+            tracer.inject(call.metadata, span);
+
+            return next().pipe(
+                tap({
+                    complete: () => finish('completed'),
+                    error: (error) =>
+                        finish('failed', {
+                            'error.message': get(error, 'message'),
+                            'rpc.grpc.status_code': get(error, 'code'),
+                        }),
+                    unsubscribe: () => finish('completed', { cancelled: true }),
+                }),
+            );
+        });
+    }
+
+    /**
+     * A call may be sent again if the method is idempotent or the server can deduplicate it by key
+     */
+    private isRepeatable(call: GrpcClientCallContext): boolean {
+        return call.options.idempotent || !!call.idempotencyKey;
+    }
+
+    private isStreaming(call: GrpcClientCallContext): boolean {
+        return call.callType === 'bidiStream' || call.callType === 'serverStream';
+    }
+
+    private isRetryable(error: unknown, call: GrpcClientCallContext): boolean {
+        const errorCode = get(error, 'code');
+
+        return !isNil(errorCode) && includes(call.options.retryableCodes, errorCode);
+    }
+
+    /**
+     * Feed attempt outcomes into the retry budget: retryable failures cost a token, successes refund
+     */
+    private trackRetryBudget<T>(call: GrpcClientCallContext): OperatorFunction<T, T> {
+        return tap({
+            error: (error) => {
+                if (this.isRetryable(error, call)) {
+                    call.retryBudget?.recordFailure();
+                }
+            },
+            next: () => call.retryBudget?.recordSuccess(),
+        });
+    }
+
     private validateOptions(options: GrpcOptions): void {
+        const { retryBudget } = options;
+
+        if (!isNil(retryBudget?.maxTokens) && (!isNumber(retryBudget.maxTokens) || retryBudget.maxTokens <= 0)) {
+            throw new Error('Retry budget max tokens must be a positive number');
+        }
+
+        if (!isNil(retryBudget?.tokenRatio) && (!isNumber(retryBudget.tokenRatio) || retryBudget.tokenRatio <= 0)) {
+            throw new Error('Retry budget token ratio must be a positive number');
+        }
+
+        this.validateCallOptions(options);
+
+        if (!isNil(options.sensitiveFields) && !isArray(options.sensitiveFields)) {
+            throw new Error('Sensitive fields must be an array');
+        }
+
+        if (
+            !isNil(options.metadataProviders) &&
+            (!isArray(options.metadataProviders) || !every(options.metadataProviders, isFunction))
+        ) {
+            throw new Error('Metadata providers must be an array of functions');
+        }
+
+        if (
+            isArray(options.interceptors) &&
+            !every(options.interceptors, (interceptor) => isFunction(interceptor?.intercept))
+        ) {
+            throw new Error('Client interceptors must implement intercept(context, next)');
+        }
+
+        if (!isNil(options.interceptors) && !isArray(options.interceptors) && !isFunction(options.interceptors)) {
+            throw new Error('Interceptors must be an array or a function returning the interceptor chain');
+        }
+
+        if (!isNil(options.overrides)) {
+            if (!isPlainObject(options.overrides)) {
+                throw new Error('Overrides must be an object keyed by "Service.Method" or "Service.*"');
+            }
+
+            forEach(options.overrides, (override, key) => {
+                if (!/^[^.\s]+\.[^.\s]+$/.test(key)) {
+                    throw new Error(`Invalid override key "${key}", expected "Service.Method" or "Service.*"`);
+                }
+
+                if (!isPlainObject(override)) {
+                    throw new Error(`Override for ${key} must be an object`);
+                }
+
+                this.validateCallOptions(override, `Override ${key}: `);
+            });
+        }
+    }
+
+    private validateCallOptions(options: GrpcCallOptions, prefix = ''): void {
         // Safe type checking with lodash
         if (!isNil(options.timeout) && (!isNumber(options.timeout) || options.timeout <= 0)) {
-            throw new Error('Timeout must be a positive number');
+            throw new Error(`${prefix}Timeout must be a positive number`);
         }
 
         if (!isNil(options.retry) && (!isNumber(options.retry) || options.retry < 0)) {
-            throw new Error('Retry count must be a non-negative number');
+            throw new Error(`${prefix}Retry count must be a non-negative number`);
         }
 
         if (!isNil(options.maxRetryDelay) && (!isNumber(options.maxRetryDelay) || options.maxRetryDelay <= 0)) {
-            throw new Error('Max retry delay must be a positive number');
+            throw new Error(`${prefix}Max retry delay must be a positive number`);
+        }
+
+        if (!isNil(options.metadata) && !isPlainObject(options.metadata)) {
+            throw new Error(`${prefix}Metadata must be an object of header values`);
+        }
+
+        if (!isNil(options.retryableCodes) && !isArray(options.retryableCodes)) {
+            throw new Error(`${prefix}Retryable codes must be an array`);
+        }
+
+        if (
+            !isNil(options.streamIdleTimeout) &&
+            (!isNumber(options.streamIdleTimeout) || options.streamIdleTimeout < 0)
+        ) {
+            throw new Error(`${prefix}Stream idle timeout must be a non-negative number`);
+        }
+
+        if (!isNil(options.streamTimeout) && (!isNumber(options.streamTimeout) || options.streamTimeout < 0)) {
+            throw new Error(`${prefix}Stream timeout must be a non-negative number`);
+        }
+
+        if (!isNil(options.hedging?.delay) && (!isNumber(options.hedging.delay) || options.hedging.delay < 0)) {
+            throw new Error(`${prefix}Hedging delay must be a non-negative number`);
+        }
+
+        if (
+            !isNil(options.hedging?.maxAttempts) &&
+            (!isNumber(options.hedging.maxAttempts) || options.hedging.maxAttempts < 1)
+        ) {
+            throw new Error(`${prefix}Hedging max attempts must be at least 1`);
         }
 
         if (!isNil(options.opossum?.timeout) && (!isNumber(options.opossum.timeout) || options.opossum.timeout <= 0)) {
-            throw new Error('Circuit breaker timeout must be a positive number');
+            throw new Error(`${prefix}Circuit breaker timeout must be a positive number`);
+        }
+
+        if (
+            !isNil(options.opossum?.halfOpenMaxCalls) &&
+            (!isInteger(options.opossum.halfOpenMaxCalls) || options.opossum.halfOpenMaxCalls < 1)
+        ) {
+            throw new Error(`${prefix}Half-open max calls must be a positive integer`);
         }
 
         if (
@@ -295,12 +1345,163 @@ export class WrappedGrpc implements ClientGrpc {
                 options.opossum.errorThresholdPercentage < 0 ||
                 options.opossum.errorThresholdPercentage > 100)
         ) {
-            throw new Error('Error threshold percentage must be a number between 0 and 100');
+            throw new Error(`${prefix}Error threshold percentage must be a number between 0 and 100`);
         }
 
-        if (!isNil(options.sensitiveFields) && !isArray(options.sensitiveFields)) {
-            throw new Error('Sensitive fields must be an array');
+        if (!isNil(options.fallback)) {
+            const { factory, lastKnownGood } = options.fallback;
+
+            if (!isPlainObject(options.fallback)) {
+                throw new Error(`${prefix}Fallback must be an object`);
+            }
+
+            if (!isNil(factory) && !isFunction(factory)) {
+                throw new Error(`${prefix}Fallback factory must be a function`);
+            }
+
+            if (
+                !isNil(lastKnownGood?.maxStaleness) &&
+                (!isNumber(lastKnownGood.maxStaleness) || lastKnownGood.maxStaleness < 0)
+            ) {
+                throw new Error(`${prefix}Fallback maxStaleness must be a non-negative number`);
+            }
+
+            if (
+                !isNil(lastKnownGood?.maxEntries) &&
+                (!isNumber(lastKnownGood.maxEntries) || lastKnownGood.maxEntries < 1)
+            ) {
+                throw new Error(`${prefix}Fallback maxEntries must be a positive number`);
+            }
+        }
+    }
+
+    /**
+     * The deadline is the earliest of the configured timeout, the inherited deadline and any caller-provided one
+     */
+    private resolveCallDeadline(options: any, call: GrpcClientCallContext): Date | undefined {
+        const { callType, inheritedDeadline, options: callOptions } = call;
+
+        // NestJS doesn't forward call options for request streams, so there is nothing to attach a deadline to
+        if (!callOptions.propagateDeadline || callType === 'bidiStream' || callType === 'clientStream') {
+            return undefined;
         }
+
+        const callTimeout = callType === 'serverStream' ? callOptions.streamTimeout : callOptions.timeout;
+        const candidates = compact([
+            callTimeout > 0 ? Date.now() + callTimeout : undefined,
+            inheritedDeadline?.getTime(),
+            options?.deadline ? new Date(options.deadline).getTime() : undefined,
+        ]);
+
+        return candidates.length > 0 ? new Date(Math.min(...candidates)) : undefined;
+    }
+
+    /**
+     * Resolve effective call options for a method: global → `Service.*` → `Service.Method`
+     */
+    private resolveCallOptions(serviceName: string, methodName: string): ResolvedCallOptions {
+        const key = `${serviceName}.${methodName}`;
+        const cached = this.resolvedCallOptions.get(key);
+
+        if (cached) {
+            return cached;
+        }
+
+        const { overrides } = this.defaultOptions;
+
+        const resolved = mergeWith(
+            {},
+            omit(this.defaultOptions, [
+                'enableLogging',
+                'forwardContextMetadata',
+                'interceptors',
+                'metadataProviders',
+                'overrides',
+                'retryBudget',
+                'sensitiveFields',
+            ]),
+            overrides[`${serviceName}.*`],
+            overrides[key],
+            // Arrays and fallbacks replace rather than merge
+            (_objValue: unknown, srcValue: unknown, property: string) => {
+                if (isArray(srcValue)) {
+                    return [...srcValue];
+                }
+
+                return property === 'fallback' ? srcValue : undefined;
+            },
+        ) as ResolvedCallOptions;
+
+        this.resolvedCallOptions.set(key, resolved);
+
+        return resolved;
+    }
+
+    /**
+     * Headers for one attempt: forwarded request context → metadata providers (in order) → per-method `metadata`
+     * → headers set by interceptors
+     */
+    private async resolveHeaders(call: GrpcClientCallContext): Promise<GrpcMetadataHeaders> {
+        const { metadataProviders } = this.defaultOptions;
+        const headers: GrpcMetadataHeaders = { ...call.forwardedMetadata };
+        const providerContext: GrpcMetadataProviderContext = {
+            args: call.args,
+            methodName: call.methodName,
+            serviceName: call.serviceName,
+        };
+
+        for (const provider of metadataProviders) {
+            Object.assign(headers, await provider(providerContext));
+        }
+
+        return { ...headers, ...call.options.metadata, ...call.metadata };
+    }
+
+    /**
+     * Retry notifier: full-jitter exponential backoff for retryable codes, honouring `retryAfter`
+     * from the server, the retry budget and the inherited deadline
+     */
+    private retryDelay(error: any, retryCount: number, call: GrpcClientCallContext): Observable<unknown> {
+        const { inheritedDeadline, options: callOptions, retryBudget } = call;
+
+        if (!this.isRetryable(error, call)) {
+            // Don't retry for non-retryable codes
+            return throwError(() => error);
+        }
+
+        if (retryBudget && !retryBudget.canRetry()) {
+            if (this.defaultOptions.enableLogging) {
+                this.logger.warn(`Retry budget exhausted, not retrying ${call.key}`);
+            }
+
+            return throwError(() => error);
+        }
+
+        const cap = Math.min(1000 * Math.pow(2, retryCount), callOptions.maxRetryDelay);
+        const retryAfter = this.extractRetryAfter(error);
+        let backoff = callOptions.retryJitter ? Math.floor(Math.random() * cap) : cap;
+
+        if (!isNil(retryAfter)) {
+            // The server asked us to wait longer than we are willing to
+            if (retryAfter > callOptions.maxRetryDelay) {
+                return throwError(() => error);
+            }
+
+            backoff = Math.max(backoff, retryAfter);
+        }
+
+        // Don't retry when the caller's deadline would pass before the next attempt
+        if (inheritedDeadline && inheritedDeadline.getTime() - Date.now() <= backoff) {
+            return throwError(() => error);
+        }
+
+        if (this.defaultOptions.enableLogging) {
+            this.logger.warn(
+                `Retrying ${call.key} (attempt ${retryCount + 1}/${callOptions.retry + 1}) in ${backoff}ms due to error code: ${get(error, 'code')}`,
+            );
+        }
+
+        return timer(backoff);
     }
 
     private sanitizeArgs(args: any[]): any[] {
@@ -349,58 +1550,14 @@ export class WrappedGrpc implements ClientGrpc {
     }
 
     public dispose(): void {
-        this.circuitBreakers.forEach((cb) => cb.close());
-        this.circuitBreakers.clear();
-    }
-
-    private wrapWithCircuitBreaker<T>(
-        observable: Observable<T>,
-        serviceName: string,
-        methodName: string,
-    ): Observable<T> {
-        const circuitBreaker = this.getOrCreateCircuitBreaker(serviceName, methodName);
-
-        if (circuitBreaker) {
-            // Use circuit breaker to execute the observable
-            return new Observable<T>((subscriber) => {
-                circuitBreaker
-                    .fire(() => {
-                        // Apply pipe operators to the observable before converting to promise
-                        const processedObservable = observable.pipe(
-                            ...(this.createPipeOperators(serviceName, methodName) as unknown as Parameters<
-                                typeof observable.pipe
-                            >),
-                        );
-
-                        return firstValueFrom(processedObservable);
-                    })
-                    .then((result: unknown) => {
-                        subscriber.next(result as T);
-                        subscriber.complete();
-                    })
-                    .catch((error) => {
-                        // Make sure we handle all errors properly to prevent server crashes
-                        if (this.defaultOptions.enableLogging) {
-                            this.logger.error(
-                                `Circuit breaker caught error in ${serviceName}.${methodName}:`,
-                                this.buildErrorContext(error, serviceName, methodName),
-                            );
-                        }
-
-                        subscriber.error(error);
-                    });
-
-                // No cleanup needed since we're using firstValueFrom
-                return () => {
-                    // Circuit breaker handles cleanup internally
-                };
-            });
+        // Shared breakers belong to the CircuitBreakerService
+        if (!this.circuitBreakerService) {
+            this.circuitBreakers.clear();
         }
 
-        // If circuit breaker is disabled, use original logic
-        return observable.pipe(
-            ...(this.createPipeOperators(serviceName, methodName) as unknown as Parameters<typeof observable.pipe>),
-        ) as Observable<T>;
+        this.lastKnownGood.clear();
+        this.resolvedCallOptions.clear();
+        this.retryBudgets.clear();
     }
 }
 
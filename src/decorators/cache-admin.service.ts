@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+
+import { chunk, filter, forEach, map } from 'lodash';
+
+import { invalidateTags, TAG_PREFIX } from './cache-entry';
+import { CacheEventListener, cacheMetrics, CacheStats } from './cache-metrics';
+import { CacheStore } from './cache-store';
+
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Cache statistics and maintenance over the store selected by GrpcCacheModule, e.g. for an admin endpoint
+ */
+@Injectable()
+export class CacheAdminService {
+    private readonly store: CacheStore;
+
+    constructor(store: CacheStore) {
+        this.store = store;
+    }
+
+    async clear(): Promise<void> {
+        await this.store.clear();
+        cacheMetrics.record('evict', '*');
+    }
+
+    /**
+     * Delete every entry whose key starts with `prefix` (e.g. `UserService.getUser:`), returns how many were deleted
+     */
+    async deleteByPrefix(prefix: string): Promise<number> {
+        if (this.store.deleteByPrefix) {
+            return this.store.deleteByPrefix(prefix, {
+                exclude: (key) => key.startsWith(TAG_PREFIX),
+                onDelete: (keys) => forEach(keys, (key) => cacheMetrics.recordKeyEviction(key)),
+            });
+        }
+
+        // Stores without prefix deletion: list the keys, then delete them in bounded batches
+        const keys = await this.listKeys(prefix);
+
+        for (const batch of chunk(keys, DELETE_BATCH_SIZE)) {
+            await Promise.all(map(batch, (key) => this.store.del(key)));
+            forEach(batch, (key) => cacheMetrics.recordKeyEviction(key));
+        }
+
+        return keys.length;
+    }
+
+    getStats(): Record<string, CacheStats>;
+    getStats(prefix: string): CacheStats;
+    getStats(prefix?: string): CacheStats | Record<string, CacheStats> {
+        return prefix === undefined ? cacheMetrics.getStats() : cacheMetrics.getStats(prefix);
+    }
+
+    async invalidateTags(tags: string[]): Promise<void> {
+        await invalidateTags(this.store, tags);
+    }
+
+    /**
+     * Keys of live entries starting with `prefix`; requires a store implementing `keys()`
+     */
+    async listKeys(prefix = ''): Promise<string[]> {
+        if (!this.store.keys) {
+            throw new Error(`${this.store.constructor.name} does not support listing keys`);
+        }
+
+        return filter(await this.store.keys(prefix), (key) => !key.startsWith(TAG_PREFIX));
+    }
+
+    onEvent(listener: CacheEventListener): () => void {
+        return cacheMetrics.onEvent(listener);
+    }
+
+    resetStats(prefix?: string): void {
+        cacheMetrics.reset(prefix);
+    }
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+
+import { Logger } from '@nestjs/common';
+
+import { every, get, isEmpty, isFunction, isNil, isString, map, uniq } from 'lodash';
+
+import { CacheKeyGenerator, defaultCacheKeyGenerator } from './cache-key';
+import { cacheMetrics, TAG_METRICS_PREFIX } from './cache-metrics';
+import { CacheStore } from './cache-store';
+
+/**
+ * Tags of a cache entry, derived from the method arguments: either a function, or strings where
+ * `{path}` is read from the first argument (`'user:{id}'` → `user:42` for `getUser({ id: 42 })`)
+ */
+export type CacheTagsOption<TArgs extends unknown[] = unknown[]> = ((...args: TArgs) => string | string[]) | string[];
+
+/**
+ * A negative-cached exception: the exception class it is rebuilt as and its `getError()` payload
+ */
+export interface CachedError {
+    name: string;
+    payload: unknown;
+}
+
+/**
+ * What @Cacheable / @CachePut / EnhancedOperation store under a key: the result (or a cached error), the version
+ * of each of its tags at write time and, with stale-while-revalidate, when it stops being fresh
+ */
+interface CachedValue {
+    error?: CachedError;
+    staleAt?: number; // epoch ms
+    tags?: Record<string, string>;
+    value?: unknown;
+}
+
+/**
+ * Cache hit. Wrapping the value keeps a cached `null` / `undefined` result apart from a miss (undefined).
+ */
+export interface CacheHit {
+    error?: CachedError;
+    stale: boolean;
+    value: unknown;
+}
+
+export const TAG_PREFIX = '__tag:';
+const TAG_TTL = 24 * 60 * 60; // seconds, at least as long as the entries using the tag
+
+const PLACEHOLDER = /\{([^}]+)\}/g;
+
+// Loads in progress per store and key, shared by concurrent misses
+const inFlight = new WeakMap<CacheStore, Map<string, Promise<unknown>>>();
+
+export const buildCacheKey = <TArgs extends unknown[]>(
+    baseKey: string,
+    args: TArgs,
+    keyGenerator: CacheKeyGenerator<TArgs> = defaultCacheKeyGenerator,
+): string => `${baseKey}:${keyGenerator(...args)}`;
+
+export const resolveCacheTags = <TArgs extends unknown[]>(
+    option: CacheTagsOption<TArgs> | undefined,
+    args: TArgs,
+): string[] => {
+    if (!option) return [];
+
+    if (isFunction(option)) {
+        const tags = option(...args);
+
+        return uniq(isString(tags) ? [tags] : tags);
+    }
+
+    return uniq(map(option, (tag) => tag.replace(PLACEHOLDER, (_, path: string) => String(get(args[0], path)))));
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const readTagVersions = async (store: CacheStore, tags: string[]): Promise<(string | undefined)[]> =>
+    Promise.all(map(tags, (tag) => store.get<string>(TAG_PREFIX + tag)));
+
+/**
+ * Cached result for a key, or undefined on a miss. Entries whose tags were invalidated after they were written
+ * count as misses; an unreachable store only costs a cache miss.
+ */
+export const readCacheEntry = async (store: CacheStore, key: string, logger: Logger): Promise<CacheHit | undefined> => {
+    try {
+        const entry = await store.get<CachedValue>(key);
+
+        if (isNil(entry)) return undefined;
+
+        const tags = Object.keys(entry.tags ?? {});
+
+        if (tags.length) {
+            const versions = await readTagVersions(store, tags);
+
+            if (!every(tags, (tag, index) => versions[index] === entry.tags![tag])) {
+                return undefined;
+            }
+        }
+
+        return {
+            error: entry.error,
+            stale: !isNil(entry.staleAt) && Date.now() >= entry.staleAt,
+            value: entry.value,
+        };
+    } catch (error) {
+        logger.warn(`Cache read failed for ${key}`, { error: errorMessage(error) });
+
+        return undefined;
+    }
+};
+
+/**
+ * Current version of each tag, created when missing. Taken before the method runs, so a result computed
+ * while its tags are being invalidated is stored under the old versions and never served.
+ */
+export const snapshotTags = async (
+    store: CacheStore,
+    tags: string[],
+    ttl: number,
+    logger: Logger,
+): Promise<Record<string, string> | undefined> => {
+    if (isEmpty(tags)) return {};
+
+    try {
+        const versions = await readTagVersions(store, tags);
+        const snapshot: Record<string, string> = {};
+
+        for (const [index, tag] of tags.entries()) {
+            let version = versions[index];
+
+            if (isNil(version)) {
+                version = randomUUID();
+                await store.set(TAG_PREFIX + tag, version, Math.max(TAG_TTL, ttl));
+            }
+
+            snapshot[tag] = version;
+        }
+
+        return snapshot;
+    } catch (error) {
+        logger.warn(`Cache tag lookup failed for ${tags.join(', ')}`, { error: errorMessage(error) });
+
+        return undefined;
+    }
+};
+
+const writeEntry = async (
+    store: CacheStore,
+    key: string,
+    entry: CachedValue,
+    { tags, ttl }: { tags: Record<string, string> | undefined; ttl: number },
+    logger: Logger,
+): Promise<boolean> => {
+    if (!tags) return false;
+
+    try {
+        await store.set(key, isEmpty(tags) ? entry : { ...entry, tags }, ttl);
+
+        return true;
+    } catch (error) {
+        logger.warn(`Cache write failed for ${key}`, { error: errorMessage(error) });
+
+        return false;
+    }
+};
+
+/**
+ * Store a result with the tag versions from `snapshotTags`; without a snapshot (store failed) nothing is written.
+ * With `staleWhileRevalidate` the entry is kept that many seconds past `ttl`, flagged as stale.
+ */
+export const writeCacheEntry = async (
+    store: CacheStore,
+    key: string,
+    value: unknown,
+    options: { staleWhileRevalidate?: number; tags: Record<string, string> | undefined; ttl: number },
+    logger: Logger,
+): Promise<boolean> => {
+    const { staleWhileRevalidate = 0, tags, ttl } = options;
+    const entry: CachedValue = { value };
+
+    if (staleWhileRevalidate > 0) {
+        entry.staleAt = Date.now() + ttl * 1000;
+    }
+
+    return writeEntry(store, key, entry, { tags, ttl: ttl + staleWhileRevalidate }, logger);
+};
+
+/**
+ * Negative-cache an exception; error entries are never served stale
+ */
+export const writeCachedError = async (
+    store: CacheStore,
+    key: string,
+    error: CachedError,
+    options: { tags: Record<string, string> | undefined; ttl: number },
+    logger: Logger,
+): Promise<boolean> => writeEntry(store, key, { error }, options, logger);
+
+/**
+ * Drop every entry carrying one of the tags, by giving the tags a new version
+ */
+export const invalidateTags = async (store: CacheStore, tags: string[]): Promise<void> => {
+    await Promise.all(
+        map(uniq(tags), async (tag) => {
+            await store.set(TAG_PREFIX + tag, randomUUID(), TAG_TTL);
+            cacheMetrics.record('evict', TAG_METRICS_PREFIX, TAG_PREFIX + tag);
+        }),
+    );
+};
+
+/**
+ * Single flight: concurrent calls for the same key share one `load` instead of all hitting the backend
+ */
+export const coalesce = <T>(store: CacheStore, key: string, load: () => Promise<T>): Promise<T> => {
+    let loads = inFlight.get(store);
+
+    if (!loads) {
+        loads = new Map();
+        inFlight.set(store, loads);
+    }
+
+    const pending = loads.get(key);
+
+    if (pending) return pending as Promise<T>;
+
+    const promise = load().finally(() => loads.delete(key));
+
+    loads.set(key, promise);
+
+    return promise;
+};
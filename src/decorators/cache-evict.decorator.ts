@@ -0,0 +1,151 @@
+import { Logger } from '@nestjs/common';
+
+import {
+    buildCacheKey,
+    CacheTagsOption,
+    invalidateTags,
+    resolveCacheTags,
+    snapshotTags,
+    writeCacheEntry,
+} from './cache-entry';
+import { CacheKeyGenerator } from './cache-key';
+import { cacheMetrics } from './cache-metrics';
+import { CacheStore } from './cache-store';
+import { getCacheStore } from './cacheable.decorator';
+
+export interface CacheEvictOptions<TArgs extends unknown[] = unknown[], TKeyArgs extends unknown[] = TArgs> {
+    allEntries?: boolean; // clear the whole store
+    beforeInvocation?: boolean; // evict before the method runs, so even a failing call evicts (default: after success)
+    key?: string; // base key of the cached method (its @Cacheable `key`, or `ClassName.methodName`)
+    keyArgs?: (...args: TArgs) => TKeyArgs; // arguments the cached method was called with (default: the same)
+    keyGenerator?: CacheKeyGenerator<TKeyArgs>; // the cached method's `keyGenerator`, if it has one
+    logger?: Logger;
+    store?: CacheStore;
+    tags?: CacheTagsOption<TArgs>; // e.g. `['user:{id}']`
+}
+
+export interface CachePutOptions<TArgs extends unknown[] = unknown[], TKeyArgs extends unknown[] = TArgs> {
+    key: string; // base key of the cached method (its @Cacheable `key`, or `ClassName.methodName`)
+    keyArgs?: (...args: TArgs) => TKeyArgs; // arguments the cached method is called with (default: the same)
+    keyGenerator?: CacheKeyGenerator<TKeyArgs>; // the cached method's `keyGenerator`, if it has one
+    logger?: Logger;
+    store?: CacheStore;
+    tags?: CacheTagsOption<TArgs>;
+    ttl?: number; // seconds
+}
+
+/**
+ * Evict every @Cacheable / @CachePut / EnhancedOperation entry carrying one of the tags
+ */
+export const invalidateCacheTags = (tags: string[], store: CacheStore = getCacheStore()): Promise<void> =>
+    invalidateTags(store, tags);
+
+/**
+ * Decorator for write methods: evicts cached entries by key, tags or all of them
+ */
+export const CacheEvict =
+    <TArgs extends unknown[] = unknown[], TKeyArgs extends unknown[] = TArgs>(
+        options: CacheEvictOptions<TArgs, TKeyArgs>,
+    ) =>
+    (target: unknown, propertyKey: string, descriptor: PropertyDescriptor) => {
+        const originalMethod = descriptor.value as (...args: TArgs) => Promise<unknown>;
+        const logger = options.logger || new Logger((target as { constructor: { name: string } }).constructor.name);
+
+        const evict = async (args: TArgs) => {
+            const store = options.store ?? getCacheStore();
+            const tags = resolveCacheTags(options.tags, args);
+
+            try {
+                if (options.allEntries) {
+                    await store.clear();
+                    cacheMetrics.record('evict', '*');
+                } else {
+                    if (options.key) {
+                        const cacheKey = buildCacheKey(
+                            options.key,
+                            options.keyArgs ? options.keyArgs(...args) : (args as unknown as TKeyArgs),
+                            options.keyGenerator,
+                        );
+
+                        await store.del(cacheKey);
+                        cacheMetrics.record('evict', options.key, cacheKey);
+                    }
+
+                    await invalidateTags(store, tags);
+                }
+
+                logger.debug(`🧹 Cache evicted by ${propertyKey}`, {
+                    allEntries: !!options.allEntries,
+                    key: options.key,
+                    method: propertyKey,
+                    tags,
+                    timestamp: new Date().toISOString(),
+                });
+            } catch (error) {
+                // Stale entries then live until their TTL, the call itself is not failed
+                logger.error(`❌ Cache eviction failed in ${propertyKey}`, {
+                    error: error instanceof Error ? error.message : String(error),
+                    method: propertyKey,
+                    tags,
+                    timestamp: new Date().toISOString(),
+                });
+            }
+        };
+
+        descriptor.value = async function (...args: TArgs) {
+            if (options.beforeInvocation) {
+                await evict(args);
+            }
+
+            const result = await originalMethod.apply(this, args);
+
+            if (!options.beforeInvocation) {
+                await evict(args);
+            }
+
+            return result;
+        };
+
+        return descriptor;
+    };
+
+/**
+ * Decorator that always runs the method and stores its result for the cached method named by `key`,
+ * e.g. `UpdateUser` refreshing the `getUser` entry instead of evicting it
+ */
+export const CachePut =
+    <TArgs extends unknown[] = unknown[], TKeyArgs extends unknown[] = TArgs>(
+        options: CachePutOptions<TArgs, TKeyArgs>,
+    ) =>
+    (target: unknown, propertyKey: string, descriptor: PropertyDescriptor) => {
+        const originalMethod = descriptor.value as (...args: TArgs) => Promise<unknown>;
+        const logger = options.logger || new Logger((target as { constructor: { name: string } }).constructor.name);
+        const ttl = options.ttl || 300;
+
+        descriptor.value = async function (...args: TArgs) {
+            const store = options.store ?? getCacheStore();
+            const cacheKey = buildCacheKey(
+                options.key,
+                options.keyArgs ? options.keyArgs(...args) : (args as unknown as TKeyArgs),
+                options.keyGenerator,
+            );
+            const tags = await snapshotTags(store, resolveCacheTags(options.tags, args), ttl, logger);
+
+            const result = await originalMethod.apply(this, args);
+
+            if (await writeCacheEntry(store, cacheKey, result, { tags, ttl }, logger)) {
+                cacheMetrics.record('write', options.key, cacheKey);
+            }
+
+            logger.debug(`💾 Cache updated by ${propertyKey} (TTL: ${ttl}s)`, {
+                cacheKey,
+                method: propertyKey,
+                timestamp: new Date().toISOString(),
+                ttl: `${ttl}s`,
+            });
+
+            return result;
+        };
+
+        return descriptor;
+    };
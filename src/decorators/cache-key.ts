@@ -0,0 +1,58 @@
+import { fromPairs, isFunction, isObject, map, reject, sortBy } from 'lodash';
+
+/**
+ * Builds the argument part of a cache key (the base key, `ClassName.methodName` or `key`, is prepended)
+ */
+export type CacheKeyGenerator<TArgs extends unknown[] = unknown[]> = (...args: TArgs) => string;
+
+// ServerUnaryCall, ServerWritableStream, ... all expose getPeer()
+const isGrpcCall = (value: unknown): boolean => isObject(value) && isFunction((value as { getPeer?: unknown }).getPeer);
+
+// grpc-js Metadata specifically: many other arguments (URLSearchParams, DTOs with accessors) have get / set
+const isGrpcMetadataInstance = (value: unknown): boolean =>
+    isObject(value) &&
+    isFunction((value as { getMap?: unknown }).getMap) &&
+    (value as { internalRepr?: unknown }).internalRepr instanceof Map;
+
+const normalize = (value: unknown, seen: WeakSet<object>): unknown => {
+    if (typeof value === 'bigint') return `${value}n`;
+
+    if (!isObject(value) || isFunction(value)) return value;
+
+    const { toJSON } = value as { toJSON?: unknown };
+
+    if (isFunction(toJSON)) return normalize(toJSON.call(value), seen);
+
+    if (value instanceof URLSearchParams) return value.toString();
+
+    if (seen.has(value)) return '[Circular]';
+
+    seen.add(value);
+
+    const normalized = Array.isArray(value)
+        ? map(value, (item) => normalize(item, seen))
+        : value instanceof Map || value instanceof Set
+          ? map(Array.from(value), (item) => normalize(item, seen))
+          : fromPairs(
+                map(sortBy(Object.keys(value)), (key) => [
+                    key,
+                    normalize((value as Record<string, unknown>)[key], seen),
+                ]),
+            );
+
+    seen.delete(value);
+
+    return normalized;
+};
+
+/**
+ * JSON with sorted object keys, circular references as `"[Circular]"` and bigints as `"<n>n"`
+ */
+export const stableStringify = (value: unknown): string | undefined => JSON.stringify(normalize(value, new WeakSet()));
+
+/**
+ * Default key generator: JSON of the arguments with sorted object keys, so `{ a, b }` and `{ b, a }` share
+ * an entry. gRPC `Metadata` and call objects are left out, circular references become `"[Circular]"`.
+ */
+export const defaultCacheKeyGenerator: CacheKeyGenerator = (...args) =>
+    stableStringify(reject(args, (arg) => isGrpcMetadataInstance(arg) || isGrpcCall(arg))) ?? '';
@@ -0,0 +1,136 @@
+import { Logger } from '@nestjs/common';
+
+import { forEach } from 'lodash';
+
+export type CacheEventType = 'evict' | 'hit' | 'miss' | 'stale' | 'write';
+
+/**
+ * `prefix` is the base key of the cached method (`ClassName.methodName` or its `key`),
+ * `tag:*` for tag invalidations (`key` is the version key of the tag) and `*` for `allEntries` evictions
+ */
+export interface CacheEvent {
+    key?: string;
+    prefix: string;
+    type: CacheEventType;
+}
+
+// One bucket for all tags: resolved tags (`user:42`, ...) are unbounded and would each keep an entry
+export const TAG_METRICS_PREFIX = 'tag:*';
+
+export type CacheEventListener = (event: CacheEvent) => void;
+
+export interface CacheStats {
+    evictions: number;
+    hitRate: number; // percentage of lookups served from the cache, stale hits included
+    hits: number;
+    misses: number;
+    staleHits: number;
+    writes: number;
+}
+
+const COUNTER_BY_TYPE: Record<CacheEventType, keyof Omit<CacheStats, 'hitRate'>> = {
+    evict: 'evictions',
+    hit: 'hits',
+    miss: 'misses',
+    stale: 'staleHits',
+    write: 'writes',
+};
+
+/**
+ * In-process hit / miss / eviction counters of @Cacheable, @CachePut, @CacheEvict and EnhancedOperation, by key prefix
+ */
+export class CacheMetrics {
+    private readonly listeners = new Set<CacheEventListener>();
+    private readonly logger = new Logger(CacheMetrics.name);
+    private readonly stats = new Map<string, Omit<CacheStats, 'hitRate'>>();
+
+    /**
+     * Counters of one prefix, or of every prefix seen so far
+     */
+    getStats(): Record<string, CacheStats>;
+    getStats(prefix: string): CacheStats;
+    getStats(prefix?: string): CacheStats | Record<string, CacheStats> {
+        if (prefix !== undefined) {
+            return this.toStats(this.stats.get(prefix));
+        }
+
+        const all: Record<string, CacheStats> = {};
+
+        this.stats.forEach((counters, key) => {
+            all[key] = this.toStats(counters);
+        });
+
+        return all;
+    }
+
+    /**
+     * Subscribe to every cache event, e.g. to feed Prometheus counters. Returns an unsubscribe function.
+     */
+    onEvent(listener: CacheEventListener): () => void {
+        this.listeners.add(listener);
+
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    record(type: CacheEventType, prefix: string, key?: string): void {
+        let counters = this.stats.get(prefix);
+
+        if (!counters) {
+            counters = { evictions: 0, hits: 0, misses: 0, staleHits: 0, writes: 0 };
+            this.stats.set(prefix, counters);
+        }
+
+        counters[COUNTER_BY_TYPE[type]]++;
+
+        forEach([...this.listeners], (listener) => {
+            try {
+                listener({ key, prefix, type });
+            } catch (error) {
+                this.logger.error(`Cache event listener failed: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    /**
+     * Count the eviction of a raw store key (capacity eviction, delete by prefix) against the longest known
+     * prefix it starts with; keys of unknown prefixes (tag versions, ...) are ignored
+     */
+    recordKeyEviction(key: string): void {
+        // Candidate prefixes end before a `:` of the key, longest first
+        for (let end = key.lastIndexOf(':'); end > 0; end = key.lastIndexOf(':', end - 1)) {
+            const prefix = key.slice(0, end);
+
+            if (this.stats.has(prefix)) {
+                this.record('evict', prefix, key);
+
+                return;
+            }
+        }
+    }
+
+    reset(prefix?: string): void {
+        if (prefix === undefined) {
+            this.stats.clear();
+        } else {
+            this.stats.delete(prefix);
+        }
+    }
+
+    private toStats(counters: Omit<CacheStats, 'hitRate'> | undefined): CacheStats {
+        const { evictions = 0, hits = 0, misses = 0, staleHits = 0, writes = 0 } = counters ?? {};
+        const lookups = hits + staleHits + misses;
+
+        return {
+            evictions,
+            hitRate: lookups > 0 ? ((hits + staleHits) / lookups) * 100 : 0,
+            hits,
+            misses,
+            staleHits,
+            writes,
+        };
+    }
+}
+
+export const cacheMetrics = new CacheMetrics();
@@ -0,0 +1,208 @@
+import { filter, forEach, map } from 'lodash';
+
+/**
+ * Storage behind `@Cacheable`. Methods may be sync (in-memory) or async (Redis, ...);
+ * `get` resolves undefined for a missing or expired key.
+ */
+export interface CacheStore {
+    clear(): Promise<void> | void;
+    del(key: string): Promise<void> | void;
+    deleteByPrefix?(prefix: string, options?: DeleteByPrefixOptions): Promise<number> | number; // deleted count
+    get<T = unknown>(key: string): Promise<T | undefined> | T | undefined;
+    keys?(prefix: string): Promise<string[]> | string[]; // live keys starting with `prefix`, needed for admin listing
+    set<T = unknown>(key: string, value: T, ttl: number): Promise<void> | void; // ttl in seconds
+}
+
+export interface DeleteByPrefixOptions {
+    exclude?: (key: string) => boolean; // keys to keep although they start with the prefix
+    onDelete?: (keys: string[]) => void; // called with each batch of deleted keys
+}
+
+export interface MemoryCacheStoreOptions {
+    maxEntries?: number; // least recently used entries are evicted beyond this (default 1000)
+    onEvict?: (key: string) => void; // called for entries dropped to stay within `maxEntries`
+}
+
+interface CacheEntry<T = unknown> {
+    data: T;
+    expiresAt: number;
+}
+
+/**
+ * In-memory LRU store with per-entry TTL, local to the process
+ */
+export class MemoryCacheStore implements CacheStore {
+    private readonly cache = new Map<string, CacheEntry>();
+    private readonly maxEntries: number;
+    private readonly onEvict?: (key: string) => void;
+
+    constructor(options: MemoryCacheStoreOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 1000;
+        this.onEvict = options.onEvict;
+
+        if (this.maxEntries < 1) {
+            throw new Error('MemoryCacheStore maxEntries must be at least 1');
+        }
+    }
+
+    clear(): void {
+        this.cache.clear();
+    }
+
+    del(key: string): void {
+        this.cache.delete(key);
+    }
+
+    deleteByPrefix(prefix: string, { exclude, onDelete }: DeleteByPrefixOptions = {}): number {
+        const keys = filter(this.keys(prefix), (key) => !exclude?.(key));
+
+        forEach(keys, (key) => this.cache.delete(key));
+        onDelete?.(keys);
+
+        return keys.length;
+    }
+
+    get<T = unknown>(key: string): T | undefined {
+        const entry = this.cache.get(key);
+
+        if (!entry) return undefined;
+
+        this.cache.delete(key);
+
+        if (Date.now() >= entry.expiresAt) {
+            return undefined;
+        }
+
+        // Re-insert so Map order stays least → most recently used
+        this.cache.set(key, entry);
+
+        return entry.data as T;
+    }
+
+    keys(prefix: string): string[] {
+        const now = Date.now();
+
+        return filter(
+            Array.from(this.cache.keys()),
+            (key) => key.startsWith(prefix) && now < this.cache.get(key)!.expiresAt,
+        );
+    }
+
+    set<T = unknown>(key: string, data: T, ttl: number): void {
+        this.cache.delete(key);
+        this.cache.set(key, { data, expiresAt: Date.now() + ttl * 1000 });
+
+        while (this.cache.size > this.maxEntries) {
+            const oldest = this.cache.keys().next().value as string;
+
+            this.cache.delete(oldest);
+            this.onEvict?.(oldest);
+        }
+    }
+
+    size(): number {
+        return this.cache.size;
+    }
+}
+
+/**
+ * Subset of the ioredis client used by RedisCacheStore.
+ * Other clients (node-redis, cluster, ...) can be plugged in through a thin adapter with these signatures.
+ */
+export interface RedisLikeClient {
+    del(...keys: string[]): Promise<number>;
+    get(key: string): Promise<null | string>;
+    scan(cursor: number | string, ...args: (number | string)[]): Promise<[string, string[]]>;
+    set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+}
+
+export interface RedisCacheStoreOptions {
+    prefix?: string; // namespace of all keys, `clear()` only removes keys under it (default 'grpc-cache:')
+    scanCount?: number; // SCAN batch size used by `clear()`, `deleteByPrefix()` and `keys()` (default 100)
+}
+
+/**
+ * Store shared by all replicas through a Redis-compatible server. Values are JSON-serialized.
+ */
+export class RedisCacheStore implements CacheStore {
+    private readonly prefix: string;
+    private readonly scanCount: number;
+
+    constructor(
+        private readonly client: RedisLikeClient,
+        options: RedisCacheStoreOptions = {},
+    ) {
+        this.prefix = options.prefix ?? 'grpc-cache:';
+        this.scanCount = options.scanCount ?? 100;
+    }
+
+    async clear(): Promise<void> {
+        // One DEL per SCAN page keeps commands small however many keys there are
+        await this.scan('', async (keys) => {
+            if (keys.length) {
+                await this.client.del(...keys);
+            }
+        });
+    }
+
+    async del(key: string): Promise<void> {
+        await this.client.del(this.prefix + key);
+    }
+
+    /**
+     * One DEL per SCAN page, so neither the keys nor the command grow with the number of matches
+     */
+    async deleteByPrefix(prefix: string, { exclude, onDelete }: DeleteByPrefixOptions = {}): Promise<number> {
+        let deleted = 0;
+
+        await this.scan(prefix, async (page) => {
+            const keys = filter(page, (key) => !exclude?.(key.slice(this.prefix.length)));
+
+            if (keys.length) {
+                deleted += await this.client.del(...keys);
+                onDelete?.(map(keys, (key) => key.slice(this.prefix.length)));
+            }
+        });
+
+        return deleted;
+    }
+
+    async get<T = unknown>(key: string): Promise<T | undefined> {
+        const raw = await this.client.get(this.prefix + key);
+
+        return raw === null ? undefined : (JSON.parse(raw) as T);
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        const found = new Set<string>();
+
+        // SCAN may return a key more than once
+        await this.scan(prefix, (keys) => {
+            forEach(keys, (key) => found.add(key.slice(this.prefix.length)));
+        });
+
+        return Array.from(found);
+    }
+
+    async set<T = unknown>(key: string, value: T, ttl: number): Promise<void> {
+        // EX only takes whole seconds
+        await this.client.set(this.prefix + key, JSON.stringify(value), 'EX', Math.max(1, Math.ceil(ttl)));
+    }
+
+    /**
+     * Walk the full keys (store prefix included) starting with `prefix` page by page, with SCAN rather than
+     * the blocking KEYS
+     */
+    private async scan(prefix: string, onPage: (keys: string[]) => Promise<void> | void): Promise<void> {
+        // Glob characters in the prefixes must match literally
+        const pattern = `${this.prefix}${prefix}`.replace(/[*?[\]\\]/g, '\\$&');
+        let cursor = '0';
+
+        do {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', `${pattern}*`, 'COUNT', this.scanCount);
+
+            await onPage(keys);
+            cursor = next;
+        } while (cursor !== '0');
+    }
+}
@@ -0,0 +1,75 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+
+import { CACHE_STORE } from '../shared';
+
+import { CacheAdminService } from './cache-admin.service';
+import { cacheMetrics } from './cache-metrics';
+import { CacheStore, MemoryCacheStore } from './cache-store';
+import { setCacheStore } from './cacheable.decorator';
+
+export interface GrpcCacheModuleOptions {
+    maxEntries?: number; // size of the default in-memory store, ignored with `store`
+    store?: CacheStore; // e.g. `new RedisCacheStore(redis)` to share the cache between replicas
+}
+
+// The selected store backs every @Cacheable without its own `store` and is injectable as CACHE_STORE
+const storeProvider: Provider = {
+    inject: ['CACHE_OPTIONS'],
+    provide: CACHE_STORE,
+    useFactory: ({ maxEntries, store }: GrpcCacheModuleOptions) => {
+        const cacheStore =
+            store ?? new MemoryCacheStore({ maxEntries, onEvict: (key) => cacheMetrics.recordKeyEviction(key) });
+
+        setCacheStore(cacheStore);
+
+        return cacheStore;
+    },
+};
+
+const adminProvider: Provider = {
+    inject: [CACHE_STORE],
+    provide: CacheAdminService,
+    useFactory: (store: CacheStore) => new CacheAdminService(store),
+};
+
+/**
+ * CACHE MODULE - selects the store used by @Cacheable
+ */
+@Module({})
+export class GrpcCacheModule {
+    static forRoot(options: GrpcCacheModuleOptions = {}): DynamicModule {
+        return {
+            providers: [
+                {
+                    provide: 'CACHE_OPTIONS',
+                    useValue: options,
+                },
+                storeProvider,
+                adminProvider,
+            ],
+            exports: [CACHE_STORE, CacheAdminService],
+            global: true,
+            module: GrpcCacheModule,
+        };
+    }
+
+    static forRootAsync(options: {
+        inject?: string[];
+        useFactory: (...args: unknown[]) => GrpcCacheModuleOptions | Promise<GrpcCacheModuleOptions>;
+    }): DynamicModule {
+        return {
+            providers: [
+                {
+                    inject: options.inject || [],
+                    provide: 'CACHE_OPTIONS',
+                    useFactory: options.useFactory,
+                },
+                storeProvider,
+                adminProvider,
+            ],
+            exports: [CACHE_STORE, CacheAdminService],
+            global: true,
+            module: GrpcCacheModule,
+        };
+    }
+}
@@ -0,0 +1,95 @@
+import { Logger } from '@nestjs/common';
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { CacheEvict, invalidateCacheTags } from './cache-evict.decorator';
+import { MemoryCacheStore } from './cache-store';
+import { Cacheable, setCacheStore } from './cacheable.decorator';
+
+interface GetUserRequest {
+    id: string;
+}
+
+class UserService {
+    calls = 0;
+    failures = 0;
+
+    @Cacheable({ tags: ['user:{id}'] })
+    async getUser(request: GetUserRequest) {
+        const version = ++this.calls;
+
+        await sleep(10);
+
+        if (this.failures > 0) {
+            this.failures--;
+            throw new Error('backend down');
+        }
+
+        return { id: request.id, version };
+    }
+
+    @CacheEvict({ tags: (request: GetUserRequest) => `user:${request.id}` })
+    async renameUser(request: GetUserRequest) {
+        return Promise.resolve(request);
+    }
+}
+
+describe('Cacheable', () => {
+    let users: UserService;
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        setCacheStore(new MemoryCacheStore());
+        users = new UserService();
+    });
+
+    it('runs the method once for concurrent misses of the same key', async () => {
+        const results = await Promise.all([
+            users.getUser({ id: '1' }),
+            users.getUser({ id: '1' }),
+            users.getUser({ id: '1' }),
+            users.getUser({ id: '2' }),
+        ]);
+
+        assert.equal(users.calls, 2);
+        assert.deepEqual(results[0], results[2]);
+        assert.deepEqual(await users.getUser({ id: '1' }), { id: '1', version: 1 });
+        assert.equal(users.calls, 2);
+    });
+
+    it('shares a failure between concurrent callers and runs again afterwards', async () => {
+        users.failures = 1;
+
+        const results = await Promise.allSettled([users.getUser({ id: '1' }), users.getUser({ id: '1' })]);
+
+        assert.deepEqual(
+            results.map(({ status }) => status),
+            ['rejected', 'rejected'],
+        );
+        assert.equal(users.calls, 1);
+
+        assert.deepEqual(await users.getUser({ id: '1' }), { id: '1', version: 2 });
+    });
+
+    it('misses after @CacheEvict invalidated a tag of the entry', async () => {
+        await users.getUser({ id: '1' });
+        await users.getUser({ id: '2' });
+
+        await users.renameUser({ id: '1' });
+
+        assert.deepEqual(await users.getUser({ id: '1' }), { id: '1', version: 3 });
+        assert.deepEqual(await users.getUser({ id: '2' }), { id: '2', version: 2 });
+        assert.equal(users.calls, 3);
+    });
+
+    it('misses after invalidateCacheTags', async () => {
+        await users.getUser({ id: '1' });
+
+        await invalidateCacheTags(['user:1']);
+
+        assert.deepEqual(await users.getUser({ id: '1' }), { id: '1', version: 2 });
+        assert.equal(users.calls, 2);
+    });
+});
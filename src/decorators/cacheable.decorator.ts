@@ -1,88 +1,215 @@
-import { Logger } from '@nestjs/common';
-
-export interface CacheableOptions {
+import { Logger, Type } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+
+import { find, isNil } from 'lodash';
+
+import { BaseGrpcException } from '../exceptions';
+
+import {
+    buildCacheKey,
+    CachedError,
+    CacheTagsOption,
+    coalesce,
+    readCacheEntry,
+    resolveCacheTags,
+    snapshotTags,
+    writeCachedError,
+    writeCacheEntry,
+} from './cache-entry';
+import { CacheKeyGenerator } from './cache-key';
+import { cacheMetrics } from './cache-metrics';
+import { CacheStore, MemoryCacheStore } from './cache-store';
+
+export interface CacheableOptions<TArgs extends unknown[] = unknown[], TResult = unknown> {
+    cacheErrors?: Type<BaseGrpcException>[]; // exceptions cached like results (negative caching), e.g. GrpcNotFoundException
+    cacheNull?: boolean; // cache null / undefined results too (default false)
+    condition?: (...args: TArgs) => boolean; // returning false bypasses the cache for the call
+    errorTtl?: number; // seconds a cached exception lives (default 60, at most `ttl`)
     key?: string;
+    keyGenerator?: CacheKeyGenerator<TArgs>; // argument part of the key (default: `defaultCacheKeyGenerator`)
     logger?: Logger;
+    staleWhileRevalidate?: number; // seconds an expired result is still served while it is refreshed in the background
+    store?: CacheStore; // default: the store selected by GrpcCacheModule, or the in-memory store of `globalCache`
+    tags?: CacheTagsOption<TArgs>; // e.g. `['user:{id}']`, evicted together by @CacheEvict / @CachePut
     ttl?: number; // seconds
-}
-
-interface CacheEntry<T = unknown> {
-    data: T;
-    timestamp: number;
-    ttl: number;
+    unless?: (result: TResult, ...args: TArgs) => boolean; // returning true keeps the result out of the cache
 }
 
 /**
- * Simple in-memory cache for method results
+ * The API `globalCache` had before CacheStore: results are read and written unwrapped
+ * and `get` returns null on a miss
  */
-class MethodCache {
-    private cache = new Map<string, CacheEntry>();
-
-    get<T>(key: string): null | T {
-        const entry = this.cache.get(key);
-
-        if (!entry) return null;
+export class MethodCache {
+    constructor(private readonly store: MemoryCacheStore) {}
 
-        const isExpired = Date.now() - entry.timestamp > entry.ttl;
+    clear(): void {
+        this.store.clear();
+    }
 
-        if (isExpired) {
-            this.cache.delete(key);
+    del(key: string): void {
+        this.store.del(key);
+    }
 
-            return null;
-        }
+    get<T>(key: string): null | T {
+        const entry = this.store.get<{ error?: unknown; value?: T }>(key);
 
-        return entry.data as T;
+        return isNil(entry) || entry.error ? null : (entry.value ?? null);
     }
 
     set<T>(key: string, data: T, ttl: number): void {
-        this.cache.set(key, {
-            data,
-            timestamp: Date.now(),
-            ttl: ttl * 1000, // Convert to ms
-        });
-    }
-
-    clear(): void {
-        this.cache.clear();
+        this.store.set(key, { value: data }, ttl);
     }
 
     size(): number {
-        return this.cache.size;
+        return this.store.size();
     }
 }
 
-const globalCache = new MethodCache();
+// Default in-memory store, used until GrpcCacheModule selects another one
+const defaultStore = new MemoryCacheStore({ onEvict: (key) => cacheMetrics.recordKeyEviction(key) });
+
+const globalCache = new MethodCache(defaultStore);
+
+let activeStore: CacheStore = defaultStore;
+
+/**
+ * Store used by @Cacheable methods without their own `store`
+ */
+export const getCacheStore = (): CacheStore => activeStore;
+
+export const setCacheStore = (store: CacheStore): void => {
+    activeStore = store;
+};
 
 /**
- * Decorator for caching method results
+ * Decorator for caching method results.
+ * Concurrent misses for the same key share one call; with `staleWhileRevalidate` an expired entry is still
+ * served for that long while a single background call refreshes it.
  */
 export const Cacheable =
-    (options: CacheableOptions = {}) =>
+    <TArgs extends unknown[] = unknown[], TResult = unknown>(options: CacheableOptions<TArgs, TResult> = {}) =>
     (target: unknown, propertyKey: string, descriptor: PropertyDescriptor) => {
-        const originalMethod = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+        const originalMethod = descriptor.value as (...args: TArgs) => Promise<unknown>;
         const logger = options.logger || new Logger((target as { constructor: { name: string } }).constructor.name);
         const ttl = options.ttl || 300; // 5 minutes default
+        const staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+        const errorTtl = Math.min(options.errorTtl ?? 60, ttl);
+
+        const isCacheable = (result: unknown, args: TArgs) =>
+            (options.cacheNull || !isNil(result)) && !options.unless?.(result as TResult, ...args);
+
+        const findErrorClass = (error: unknown) =>
+            find(options.cacheErrors, (errorClass) => error instanceof errorClass);
+
+        // Rebuilt through the RpcException constructor: subclass constructors take different arguments
+        const rebuildError = ({ name, payload }: CachedError) => {
+            const errorClass = find(options.cacheErrors, (candidate) => candidate.name === name);
+
+            return errorClass && (Reflect.construct(RpcException, [payload], errorClass) as BaseGrpcException);
+        };
+
+        descriptor.value = async function (...args: TArgs) {
+            if (options.condition && !options.condition(...args)) {
+                return originalMethod.apply(this, args);
+            }
 
-        descriptor.value = async function (...args: unknown[]) {
             const baseKey =
                 options.key || `${(target as { constructor: { name: string } }).constructor.name}.${propertyKey}`;
-            const argsKey = JSON.stringify(args);
-            const cacheKey = `${baseKey}:${argsKey}`;
+            const cacheKey = buildCacheKey(baseKey, args, options.keyGenerator);
+
+            const store = options.store ?? activeStore;
 
-            // Try to get from cache
-            const cached = globalCache.get(cacheKey);
+            // Try to get from cache, an unreachable store only costs a cache miss
+            let cached = await readCacheEntry(store, cacheKey, logger);
+            const cachedError = cached?.error && rebuildError(cached.error);
 
-            if (cached !== null) {
+            // An exception class dropped from `cacheErrors` since the entry was written counts as a miss
+            if (cached?.error && !cachedError) {
+                cached = undefined;
+            }
+
+            if (cached && !cached.stale) {
+                cacheMetrics.record('hit', baseKey, cacheKey);
                 logger.debug(`💾 Cache hit for ${propertyKey}`, {
+                    cacheKey,
+                    error: cachedError?.message,
+                    method: propertyKey,
+                    timestamp: new Date().toISOString(),
+                });
+
+                if (cachedError) {
+                    throw cachedError;
+                }
+
+                return cached.value;
+            }
+
+            const load = () =>
+                coalesce(store, cacheKey, async () => {
+                    const tags = await snapshotTags(store, resolveCacheTags(options.tags, args), ttl, logger);
+                    let result: unknown;
+
+                    try {
+                        result = await originalMethod.apply(this, args);
+                    } catch (error) {
+                        const errorClass = findErrorClass(error);
+
+                        if (
+                            errorClass &&
+                            (await writeCachedError(
+                                store,
+                                cacheKey,
+                                { name: errorClass.name, payload: (error as BaseGrpcException).getError() },
+                                { tags, ttl: errorTtl },
+                                logger,
+                            ))
+                        ) {
+                            cacheMetrics.record('write', baseKey, cacheKey);
+                        }
+
+                        throw error;
+                    }
+
+                    if (!isCacheable(result, args)) {
+                        return result;
+                    }
+
+                    // Store in cache
+                    if (await writeCacheEntry(store, cacheKey, result, { staleWhileRevalidate, tags, ttl }, logger)) {
+                        cacheMetrics.record('write', baseKey, cacheKey);
+                    }
+
+                    logger.debug(`💾 Cached result for ${propertyKey} (TTL: ${ttl}s)`, {
+                        cacheKey,
+                        method: propertyKey,
+                        timestamp: new Date().toISOString(),
+                        ttl: `${ttl}s`,
+                    });
+
+                    return result;
+                });
+
+            if (cached) {
+                cacheMetrics.record('stale', baseKey, cacheKey);
+                logger.debug(`♻️ Serving stale result for ${propertyKey}, revalidating`, {
                     cacheKey,
                     method: propertyKey,
                     timestamp: new Date().toISOString(),
                 });
 
-                return cached;
+                load().catch((error: unknown) => {
+                    logger.warn(`Revalidation of ${propertyKey} failed, keeping the stale result`, {
+                        error: error instanceof Error ? error.message : String(error),
+                        method: propertyKey,
+                        timestamp: new Date().toISOString(),
+                    });
+                });
+
+                return cached.value;
             }
 
             // Execute original method
+            cacheMetrics.record('miss', baseKey, cacheKey);
             logger.debug(`🔍 Cache miss for ${propertyKey}`, {
                 cacheKey,
                 method: propertyKey,
@@ -90,22 +217,9 @@ export const Cacheable =
             });
 
             try {
-                const result = await originalMethod.apply(this, args);
-
-                // Store in cache
-                globalCache.set(cacheKey, result, ttl);
-
-                logger.debug(`💾 Cached result for ${propertyKey} (TTL: ${ttl}s)`, {
-                    cacheKey,
-                    cacheSize: globalCache.size(),
-                    method: propertyKey,
-                    timestamp: new Date().toISOString(),
-                    ttl: `${ttl}s`,
-                });
-
-                return result;
+                return await load();
             } catch (error) {
-                logger.error(`❌ Error in ${propertyKey}, not caching`, {
+                logger.error(`❌ Error in ${propertyKey}${findErrorClass(error) ? '' : ', not caching'}`, {
                     error: error instanceof Error ? error.message : String(error),
                     method: propertyKey,
                     timestamp: new Date().toISOString(),
@@ -118,5 +232,5 @@ export const Cacheable =
         return descriptor;
     };
 
-// Export cache instance for manual management
+// Export the default in-memory store for manual management
 export { globalCache };
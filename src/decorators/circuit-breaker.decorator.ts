@@ -0,0 +1,85 @@
+import { Inject, Logger, Optional } from '@nestjs/common';
+
+import { get, isFunction } from 'lodash';
+
+import { CircuitBreakerService, GrpcCircuitBreakerOptions } from '../enhancements/circuit-breaker';
+import { GrpcUnavailableException } from '../exceptions';
+
+export interface CircuitBreakerOptions {
+    fallback?: string; // method of the same class, called with the original args plus the GrpcUnavailableException
+    logger?: Logger;
+    name?: string; // breaker name in the registry (default `ClassName.methodName`)
+    options?: Partial<GrpcCircuitBreakerOptions>; // overrides the CircuitBreakerService config when the breaker is created
+}
+
+// Where the injected CircuitBreakerService is kept on decorated instances
+const CIRCUIT_BREAKER_SERVICE = Symbol('circuit-breaker-service');
+
+/**
+ * Decorator running an async method through a named breaker of CircuitBreakerService.
+ * The service is property-injected, so the class must be a Nest provider with GrpcCircuitBreakerModule imported.
+ * While the circuit is open calls fail fast with GrpcUnavailableException (`retryAfter` in seconds),
+ * or are answered by the `fallback` method.
+ */
+export const CircuitBreaker =
+    (options: CircuitBreakerOptions = {}) =>
+    (target: object, propertyKey: string, descriptor: PropertyDescriptor) => {
+        const originalMethod = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+        const className = (target as { constructor: { name: string } }).constructor.name;
+        const logger = options.logger || new Logger(className);
+        const name = options.name || `${className}.${propertyKey}`;
+
+        // Optional, so a missing GrpcCircuitBreakerModule is reported on call instead of failing the bootstrap
+        Optional()(target, CIRCUIT_BREAKER_SERVICE);
+        Inject(CircuitBreakerService)(target, CIRCUIT_BREAKER_SERVICE);
+
+        descriptor.value = async function (
+            this: Record<symbol, CircuitBreakerService | undefined>,
+            ...args: unknown[]
+        ) {
+            const service = this[CIRCUIT_BREAKER_SERVICE];
+
+            if (!service) {
+                throw new Error(
+                    `@CircuitBreaker on ${className}.${propertyKey} requires CircuitBreakerService, import GrpcCircuitBreakerModule`,
+                );
+            }
+
+            // Created with the per-method overrides on first use
+            service.getBreaker(name, options.options);
+
+            try {
+                return await service.execute(name, () => originalMethod.apply(this, args));
+            } catch (error) {
+                if (get(error, 'code') !== 'EOPENBREAKER') {
+                    throw error;
+                }
+
+                const nextAttempt = service.getRegistry().getInfo(name)?.nextAttempt;
+                const retryAfter = nextAttempt
+                    ? Math.max(0, Math.ceil((nextAttempt.getTime() - Date.now()) / 1000))
+                    : undefined;
+                const exception = new GrpcUnavailableException(`Circuit breaker ${name} is open`, retryAfter);
+
+                if (!options.fallback) {
+                    throw exception;
+                }
+
+                const fallback: unknown = get(this, options.fallback);
+
+                if (!isFunction(fallback)) {
+                    throw new Error(`Fallback ${options.fallback} of ${className}.${propertyKey} is not a method`);
+                }
+
+                logger.warn(`Circuit breaker ${name} is open, serving ${options.fallback}`, {
+                    method: propertyKey,
+                    retryAfter,
+                    timestamp: new Date().toISOString(),
+                });
+
+                return fallback.apply(this, [...args, exception]) as unknown;
+            }
+        };
+
+        return descriptor;
+    };
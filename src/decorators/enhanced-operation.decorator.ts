@@ -2,8 +2,24 @@ import { randomUUID } from 'crypto';
 
 import { Logger } from '@nestjs/common';
 
-export interface EnhancedOperationOptions {
+import { DistributedTracer, TraceSpan } from '../enhancements/tracing';
+import { getActiveSpan } from '../shared';
+
+import {
+    buildCacheKey,
+    CacheTagsOption,
+    readCacheEntry,
+    resolveCacheTags,
+    snapshotTags,
+    writeCacheEntry,
+} from './cache-entry';
+import { cacheMetrics } from './cache-metrics';
+import { getCacheStore, globalCache } from './cacheable.decorator';
+import { injectOperationTracer, resolveOperationTracer, runInOperationSpan } from './operation-span';
+
+export interface EnhancedOperationOptions<TArgs extends unknown[] = unknown[]> {
     cacheEnabled?: boolean;
+    cacheTags?: CacheTagsOption<TArgs>; // evicted by @CacheEvict / invalidateCacheTags, like @Cacheable tags
     cacheTtl?: number;
     includeArgs?: boolean;
     includeResult?: boolean;
@@ -12,74 +28,47 @@ export interface EnhancedOperationOptions {
     performanceThreshold?: number;
 }
 
-interface CacheEntry<T = unknown> {
-    data: T;
-    timestamp: number;
-    ttl: number;
-}
-
-class EnhancedCache {
-    private cache = new Map<string, CacheEntry>();
-
-    get<T>(key: string): null | T {
-        const entry = this.cache.get(key);
-
-        if (!entry) return null;
-
-        const isExpired = Date.now() - entry.timestamp > entry.ttl;
-
-        if (isExpired) {
-            this.cache.delete(key);
-
-            return null;
-        }
-
-        return entry.data as T;
-    }
-
-    set<T>(key: string, data: T, ttl: number): void {
-        this.cache.set(key, {
-            data,
-            timestamp: Date.now(),
-            ttl: ttl * 1000,
-        });
-    }
-
-    clear(): void {
-        this.cache.clear();
-    }
-
-    size(): number {
-        return this.cache.size;
-    }
-}
-
-const enhancedCache = new EnhancedCache();
-
 /**
- * Enhanced decorator combining tracing, performance monitoring, and caching
+ * Enhanced decorator combining tracing, performance monitoring, and caching.
+ * Runs in a DistributedTracer span when TracingModule is imported, otherwise logs start / completion
  */
 export const EnhancedOperation =
-    (options: EnhancedOperationOptions = {}) =>
+    <TArgs extends unknown[] = unknown[]>(options: EnhancedOperationOptions<TArgs> = {}) =>
     (target: unknown, propertyKey: string, descriptor: PropertyDescriptor) => {
-        const originalMethod = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+        const originalMethod = descriptor.value as (...args: TArgs) => Promise<unknown>;
         const logger = options.logger || new Logger((target as { constructor: { name: string } }).constructor.name);
         const operationName =
             options.operationName || `${(target as { constructor: { name: string } }).constructor.name}.${propertyKey}`;
         const performanceThreshold = options.performanceThreshold || 1000;
         const cacheTtl = options.cacheTtl || 300;
 
-        descriptor.value = async function (...args: unknown[]) {
-            const traceId = randomUUID();
+        injectOperationTracer(target as object);
+
+        // With a tracer the span records the operation instead of the start / completion logs
+        const execute = async function (
+            this: unknown,
+            args: TArgs,
+            traced?: { span: TraceSpan; tracer: DistributedTracer },
+        ) {
+            // Logs of a traced request share its trace id
+            const traceId = getActiveSpan()?.traceId ?? randomUUID();
             const startTime = process.hrtime.bigint();
             const startMemory = process.memoryUsage();
 
+            // Results share the @Cacheable store
+            const store = getCacheStore();
+            // Arguments are only serialized into a key when caching is enabled
+            const cacheKey = options.cacheEnabled ? buildCacheKey(operationName, args) : undefined;
+            let cacheTags: Record<string, string> | undefined;
+
             // Check cache if enabled
-            if (options.cacheEnabled) {
-                const cacheKey = `${operationName}:${JSON.stringify(args)}`;
-                const cached = enhancedCache.get(cacheKey);
+            if (cacheKey !== undefined) {
+                const cached = await readCacheEntry(store, cacheKey, logger);
 
-                if (cached !== null) {
+                traced?.tracer.addTags(traced.span.spanId, { 'cache.hit': Boolean(cached) });
+
+                if (cached) {
+                    cacheMetrics.record('hit', operationName, cacheKey);
                     logger.debug(`💾 [${traceId}] Cache hit for ${operationName}`, {
                         cached: true,
                         operation: operationName,
@@ -87,16 +76,22 @@ export const EnhancedOperation =
                         traceId,
                     });
 
-                    return cached;
+                    return cached.value;
                 }
+
+                cacheMetrics.record('miss', operationName, cacheKey);
+
+                cacheTags = await snapshotTags(store, resolveCacheTags(options.cacheTags, args), cacheTtl, logger);
             }
 
-            logger.log(`🟢 [${traceId}] Starting ${operationName}`, {
-                args: options.includeArgs ? args : '[hidden]',
-                operation: operationName,
-                timestamp: new Date().toISOString(),
-                traceId,
-            });
+            if (!traced) {
+                logger.log(`🟢 [${traceId}] Starting ${operationName}`, {
+                    args: options.includeArgs ? args : '[hidden]',
+                    operation: operationName,
+                    timestamp: new Date().toISOString(),
+                    traceId,
+                });
+            }
 
             try {
                 const result = await originalMethod.apply(this, args);
@@ -124,7 +119,7 @@ export const EnhancedOperation =
                         `⚠️ [${traceId}] Slow operation: ${operationName} took ${duration.toFixed(2)}ms`,
                         performanceData,
                     );
-                } else {
+                } else if (!traced) {
                     logger.log(
                         `✅ [${traceId}] Completed ${operationName} in ${duration.toFixed(2)}ms`,
                         performanceData,
@@ -132,10 +127,11 @@ export const EnhancedOperation =
                 }
 
                 // Cache result if enabled
-                if (options.cacheEnabled) {
-                    const cacheKey = `${operationName}:${JSON.stringify(args)}`;
+                if (cacheKey !== undefined) {
+                    if (await writeCacheEntry(store, cacheKey, result, { tags: cacheTags, ttl: cacheTtl }, logger)) {
+                        cacheMetrics.record('write', operationName, cacheKey);
+                    }
 
-                    enhancedCache.set(cacheKey, result, cacheTtl);
                     logger.debug(`💾 [${traceId}] Cached result for ${operationName} (TTL: ${cacheTtl}s)`);
                 }
 
@@ -146,21 +142,41 @@ export const EnhancedOperation =
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 const errorStack = error instanceof Error ? error.stack : undefined;
 
-                logger.error(`❌ [${traceId}] Failed ${operationName} in ${duration.toFixed(2)}ms`, {
-                    duration: `${duration.toFixed(2)}ms`,
-                    error: errorMessage,
-                    operation: operationName,
-                    stack: errorStack,
-                    timestamp: new Date().toISOString(),
-                    traceId,
-                });
+                // The span records the exception
+                if (!traced) {
+                    logger.error(`❌ [${traceId}] Failed ${operationName} in ${duration.toFixed(2)}ms`, {
+                        duration: `${duration.toFixed(2)}ms`,
+                        error: errorMessage,
+                        operation: operationName,
+                        stack: errorStack,
+                        timestamp: new Date().toISOString(),
+                        traceId,
+                    });
+                }
 
                 throw error;
             }
         };
 
+        descriptor.value = async function (...args: TArgs) {
+            const tracer = resolveOperationTracer(this);
+
+            if (!tracer) {
+                return execute.call(this, args);
+            }
+
+            return runInOperationSpan(
+                tracer,
+                operationName,
+                { args: options.includeArgs ? args : undefined, includeResult: options.includeResult },
+                (span) => execute.call(this, args, { span, tracer }),
+            );
+        };
+
         return descriptor;
     };
 
-// Export cache for manual management
-export { enhancedCache };
+/**
+ * @deprecated EnhancedOperation caches in the @Cacheable store, use `getCacheStore()`
+ */
+export const enhancedCache = globalCache;
@@ -8,11 +8,13 @@ export interface GrpcMethodMetadata {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any;
     description?: string;
+    idempotent?: boolean; // safe to execute more than once with the same request
     logLevel?: 'debug' | 'error' | 'info' | 'warn';
     method: string;
     rateLimit?: number;
     requiresAuth?: boolean;
     service: string;
+    sideEffects?: boolean; // false for read-only handlers (implies idempotent)
 }
 
 export const GrpcMethod = (service: string, method: string, metadata?: Partial<GrpcMethodMetadata>) => {
@@ -24,5 +26,9 @@ export const GrpcMethod = (service: string, method: string, metadata?: Partial<G
         ...metadata,
     };
 
+    if (fullMetadata.idempotent === undefined && fullMetadata.sideEffects === false) {
+        fullMetadata.idempotent = true;
+    }
+
     return applyDecorators(GrpcMethodDecorator(service, method), SetMetadata(GRPC_METHOD_METADATA, fullMetadata));
 };
@@ -1,5 +1,19 @@
+export * from './cache-admin.service';
+
+export * from './cache-evict.decorator';
+
+export * from './cache-key';
+
+export * from './cache-metrics';
+
+export * from './cache-store';
+
+export * from './cache.module';
+
 export * from './cacheable.decorator';
 
+export * from './circuit-breaker.decorator';
+
 export * from './enhanced-operation.decorator';
 
 export * from './grpc-method.decorator';
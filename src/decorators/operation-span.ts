@@ -0,0 +1,66 @@
+import { Inject, Optional } from '@nestjs/common';
+
+import { get } from 'lodash';
+
+import { DistributedTracer, getGlobalTracer, TraceSpan } from '../enhancements/tracing';
+
+import { defaultCacheKeyGenerator, stableStringify } from './cache-key';
+
+export interface OperationSpanOptions {
+    args?: unknown[]; // recorded as `operation.args`
+    includeResult?: boolean; // record the result as `operation.result`
+}
+
+// Where the injected DistributedTracer is kept on decorated instances
+const OPERATION_TRACER = Symbol('operation-tracer');
+
+const tracedClasses = new WeakSet<object>();
+
+/**
+ * Property-inject the DistributedTracer of TracingModule, when it is imported, into instances of the decorated class
+ */
+export const injectOperationTracer = (target: object): void => {
+    if (tracedClasses.has(target)) return;
+
+    tracedClasses.add(target);
+    Optional()(target, OPERATION_TRACER);
+    Inject(DistributedTracer)(target, OPERATION_TRACER);
+};
+
+/**
+ * Tracer of a decorated instance: the injected one, else the one registered by TracingModule
+ */
+export const resolveOperationTracer = (instance: unknown): DistributedTracer | undefined =>
+    (get(instance, OPERATION_TRACER) as DistributedTracer | undefined) ?? getGlobalTracer();
+
+/**
+ * Run a decorated method in a child span of the active span; the span is active while the method runs
+ */
+export const runInOperationSpan = async <T>(
+    tracer: DistributedTracer,
+    operationName: string,
+    options: OperationSpanOptions,
+    fn: (span: TraceSpan) => Promise<T>,
+): Promise<T> => {
+    // gRPC metadata and call objects are left out, like in cache keys
+    const span = tracer.startSpan(operationName, tracer.getActiveSpan(), {
+        'operation.args': options.args ? defaultCacheKeyGenerator(...options.args) : undefined,
+        'span.kind': 'internal',
+    });
+    // Sampled-out spans are not tracked by the tracer, only their context is propagated
+    const finish = (status: 'completed' | 'failed', tags?: Record<string, unknown>) =>
+        span.sampled && tracer.finishSpan(span.spanId, status, tags);
+
+    try {
+        const result = await tracer.withSpan(span, () => fn(span));
+
+        finish('completed', options.includeResult ? { 'operation.result': stableStringify(result) } : undefined);
+
+        return result;
+    } catch (error) {
+        tracer.recordException(span.spanId, error);
+        finish('failed', { 'error.message': error instanceof Error ? error.message : String(error) });
+
+        throw error;
+    }
+};
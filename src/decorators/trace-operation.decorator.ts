@@ -2,6 +2,10 @@ import { randomUUID } from 'crypto';
 
 import { Logger } from '@nestjs/common';
 
+import { getActiveSpan } from '../shared';
+
+import { injectOperationTracer, resolveOperationTracer, runInOperationSpan } from './operation-span';
+
 export interface TraceOperationOptions {
     includeArgs?: boolean;
     includeResult?: boolean;
@@ -10,7 +14,8 @@ export interface TraceOperationOptions {
 }
 
 /**
- * Decorator for tracing gRPC operations with unique trace IDs
+ * Decorator for tracing gRPC operations: a DistributedTracer span when TracingModule is imported,
+ * otherwise start / completion logs with a unique trace ID
  */
 export const TraceOperation =
     (options: TraceOperationOptions = {}) =>
@@ -20,8 +25,22 @@ export const TraceOperation =
         const operationName =
             options.operationName || `${(target as { constructor: { name: string } }).constructor.name}.${propertyKey}`;
 
+        injectOperationTracer(target as object);
+
         descriptor.value = async function (...args: unknown[]) {
-            const traceId = randomUUID();
+            const tracer = resolveOperationTracer(this);
+
+            if (tracer) {
+                return runInOperationSpan(
+                    tracer,
+                    operationName,
+                    { args: options.includeArgs ? args : undefined, includeResult: options.includeResult },
+                    () => originalMethod.apply(this, args),
+                );
+            }
+
+            // Logs of a traced request share its trace id
+            const traceId = getActiveSpan()?.traceId ?? randomUUID();
             const startTime = Date.now();
 
             logger.log(`[${traceId}] Starting ${operationName}`, {
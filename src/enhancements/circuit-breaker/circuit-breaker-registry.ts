@@ -0,0 +1,541 @@
+import { Logger } from '@nestjs/common';
+
+import { filter, fromPairs, isNil, map, noop, omit, sumBy, times } from 'lodash';
+
+import CircuitBreaker from 'opossum';
+
+export type GrpcCircuitState = 'CLOSED' | 'HALF_OPEN' | 'OPEN';
+
+/**
+ * Opossum options plus a slow-call rate threshold: the breaker also opens when at least
+ * `slowCallRateThreshold` % of the calls in the rolling window took longer than `slowCallDuration` ms
+ */
+export interface GrpcCircuitBreakerOptions extends CircuitBreaker.Options {
+    failureThreshold?: number; // failures in the rolling window that open the breaker, whatever the error rate
+    halfOpenMaxCalls?: number; // probes let through at once while half-open (default 1); the first success closes
+    slowCallDuration?: number;
+    slowCallRateThreshold?: number;
+}
+
+/**
+ * Rolling window statistics of one breaker
+ */
+export interface GrpcCircuitBreakerStats {
+    cancellations: number; // calls cancelled by the subscriber (not counted as failures)
+    errorRate: number; // percentage of fired calls that failed
+    failures: number;
+    fires: number;
+    latencyMean: number;
+    rejects: number; // calls rejected while open
+    slowCallRate: number; // percentage of completed calls slower than `slowCallDuration`
+    slowCalls: number;
+    successes: number;
+    timeouts: number;
+}
+
+export interface GrpcCircuitBreakerInfo {
+    forced: boolean; // opened manually, stays open until closed or reset
+    key: string; // `service.method`, or the name given to CircuitBreakerService
+    lastFailureTime?: Date;
+    nextAttempt?: Date; // when an open breaker lets the next probe through
+    openCount: number; // times opened since created / reset
+    state: GrpcCircuitState;
+    stats: GrpcCircuitBreakerStats;
+}
+
+export interface GrpcCircuitStateChange {
+    forced: boolean;
+    key: string;
+    previousState: GrpcCircuitState;
+    state: GrpcCircuitState;
+    timestamp: Date;
+}
+
+export type GrpcCircuitStateListener = (change: GrpcCircuitStateChange) => void;
+
+/**
+ * Summary for health checks: healthy while no breaker is open
+ */
+export interface GrpcCircuitHealth {
+    breakers: Record<string, GrpcCircuitState>;
+    halfOpen: string[];
+    healthy: boolean;
+    open: string[];
+}
+
+interface CircuitBreakerEntry {
+    breaker: CircuitBreaker<unknown[], unknown>;
+    calls: CallWindow;
+    cancellations: number;
+    forced: boolean;
+    lastFailureAt?: number;
+    openCount: number;
+    openedAt?: number;
+    options: GrpcCircuitBreakerOptions;
+    probes: number; // half-open probes in flight
+    state: GrpcCircuitState;
+}
+
+// Opossum's default call timeout
+const DEFAULT_TIMEOUT = 10000;
+
+interface CallBucket {
+    calls: number;
+    latency: number;
+    slowCalls: number;
+    start: number;
+}
+
+/**
+ * Latency / slow call counters over the same rolling window as the breaker,
+ * in a fixed number of buckets so memory doesn't grow with traffic
+ */
+class CallWindow {
+    private readonly bucketSize: number;
+    private readonly buckets: CallBucket[];
+
+    constructor(windowSize: number, bucketCount: number) {
+        this.bucketSize = Math.max(1, Math.floor(windowSize / bucketCount));
+        this.buckets = times(bucketCount, () => ({ calls: 0, latency: 0, slowCalls: 0, start: 0 }));
+    }
+
+    record(latency: number, slow: boolean): void {
+        const now = Date.now();
+        const start = now - (now % this.bucketSize);
+        const bucket = this.buckets[Math.floor(now / this.bucketSize) % this.buckets.length];
+
+        if (bucket.start !== start) {
+            Object.assign(bucket, { calls: 0, latency: 0, slowCalls: 0, start });
+        }
+
+        bucket.calls++;
+        bucket.latency += latency;
+        bucket.slowCalls += slow ? 1 : 0;
+    }
+
+    reset(): void {
+        this.buckets.forEach((bucket) => Object.assign(bucket, { calls: 0, latency: 0, slowCalls: 0, start: 0 }));
+    }
+
+    summary(): { calls: number; latencyMean: number; slowCalls: number } {
+        const since = Date.now() - this.bucketSize * this.buckets.length;
+        const buckets = filter(this.buckets, (bucket) => bucket.start > since);
+        const calls = sumBy(buckets, 'calls');
+
+        return {
+            calls,
+            latencyMean: calls > 0 ? sumBy(buckets, 'latency') / calls : 0,
+            slowCalls: sumBy(buckets, 'slowCalls'),
+        };
+    }
+}
+
+/**
+ * Named opossum breakers (`service.method` for WrappedGrpc calls) with state tracking,
+ * state-change listeners and manual controls. Shared by CircuitBreakerService and WrappedGrpc.
+ */
+export class GrpcCircuitBreakerRegistry {
+    private readonly entries = new Map<string, CircuitBreakerEntry>();
+    private readonly forcedOpen = new Set<string>(); // opened manually before their breaker was created
+    private readonly listeners = new Set<GrpcCircuitStateListener>();
+    private readonly logger = new Logger(GrpcCircuitBreakerRegistry.name);
+
+    /**
+     * Remove all breakers and stop their timers
+     */
+    clear(): void {
+        this.entries.forEach(({ breaker }) => breaker.shutdown());
+        this.entries.clear();
+        this.forcedOpen.clear();
+    }
+
+    /**
+     * Close a breaker (also lifts a manual open)
+     */
+    close(key: string): boolean {
+        const entry = this.entries.get(key);
+
+        if (!entry) {
+            return this.forcedOpen.delete(key);
+        }
+
+        entry.forced = false;
+        entry.breaker.close();
+
+        return true;
+    }
+
+    /**
+     * Run an operation through a registered breaker. The operation runs outside opossum and only its outcome
+     * is fed to the breaker before the returned promise settles, so a call cancelled by the caller (`signal`
+     * aborted before it settled) or failing with an error matched by `errorFilter` is left out of the statistics,
+     * and such a half-open probe lets the next call probe instead of closing the circuit.
+     */
+    async fire<T>(key: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const entry = this.entries.get(key);
+
+        if (!entry) {
+            throw new Error(`Circuit breaker ${key} is not registered`);
+        }
+
+        const { breaker } = entry;
+        const probe = breaker.pendingClose;
+
+        if (probe && entry.probes >= (entry.options.halfOpenMaxCalls ?? 1)) {
+            const error = Object.assign(new Error('Breaker is open'), { code: 'EOPENBREAKER' });
+
+            // Counted like opossum counts calls rejected while open
+            breaker.emit('fire', []);
+            breaker.emit('reject', error);
+
+            throw error;
+        }
+
+        // Open or shut down: opossum rejects the call (a disabled breaker just runs it)
+        if (!breaker.closed && !probe) {
+            return (await breaker.fire(operation)) as T;
+        }
+
+        const { timeout = DEFAULT_TIMEOUT } = entry.options;
+        const startedAt = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+        let timeoutError: Error | undefined;
+
+        entry.probes += probe ? 1 : 0;
+
+        try {
+            const result = await Promise.race([
+                operation(),
+                new Promise<never>((_resolve, reject) => {
+                    if (!timeout) return;
+
+                    timer = setTimeout(() => {
+                        timeoutError = Object.assign(new Error(`Timed out after ${timeout}ms`), { code: 'ETIMEDOUT' });
+                        reject(timeoutError);
+                    }, timeout);
+                }),
+            ]);
+
+            await this.settle(key, breaker, Date.now() - startedAt, () => Promise.resolve(result));
+
+            return result;
+        } catch (error) {
+            if (signal?.aborted && error !== timeoutError) {
+                entry.cancellations++;
+
+                throw error;
+            }
+
+            if (error === timeoutError) {
+                breaker.emit('timeout', error, Date.now() - startedAt);
+            }
+
+            // Errors the breaker ignores (NOT_FOUND, ...) neither close a half-open circuit nor count as successes
+            const ignored = error !== timeoutError && !!entry.options.errorFilter?.(error);
+
+            await this.settle(key, breaker, Date.now() - startedAt, ignored ? undefined : () => Promise.reject(error));
+
+            throw error;
+        } finally {
+            clearTimeout(timer);
+
+            if (probe && entry.breaker === breaker) {
+                entry.probes--;
+            }
+        }
+    }
+
+    get(key: string): CircuitBreaker<unknown[], unknown> | undefined {
+        return this.entries.get(key)?.breaker;
+    }
+
+    getHealth(): GrpcCircuitHealth {
+        const breakers = fromPairs(map([...this.entries], ([key, entry]) => [key, entry.state]));
+        const open = filter(Object.keys(breakers), (key) => breakers[key] === 'OPEN');
+
+        return {
+            breakers,
+            halfOpen: filter(Object.keys(breakers), (key) => breakers[key] === 'HALF_OPEN'),
+            healthy: open.length === 0,
+            open,
+        };
+    }
+
+    getInfo(key: string): GrpcCircuitBreakerInfo | undefined {
+        const entry = this.entries.get(key);
+
+        return entry && this.toInfo(key, entry);
+    }
+
+    getOrCreate(key: string, options: GrpcCircuitBreakerOptions): CircuitBreaker<unknown[], unknown> {
+        const existing = this.entries.get(key);
+
+        if (existing) {
+            return existing.breaker;
+        }
+
+        const entry: CircuitBreakerEntry = {
+            breaker: this.createBreaker(key, options),
+            calls: this.createCallWindow(options),
+            cancellations: 0,
+            forced: false,
+            openCount: 0,
+            options,
+            probes: 0,
+            state: 'CLOSED',
+        };
+
+        this.entries.set(key, entry);
+
+        if (this.forcedOpen.delete(key)) {
+            entry.forced = true;
+            entry.breaker.open();
+        }
+
+        return entry.breaker;
+    }
+
+    list(): GrpcCircuitBreakerInfo[] {
+        return map([...this.entries], ([key, entry]) => this.toInfo(key, entry));
+    }
+
+    /**
+     * Subscribe to state changes of every breaker; returns an unsubscribe function
+     */
+    onStateChange(listener: GrpcCircuitStateListener): () => void {
+        this.listeners.add(listener);
+
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Open a breaker manually (e.g. for maintenance). It stays open until `close` or `reset`.
+     * A breaker that doesn't exist yet is opened as soon as it is created by its first call.
+     */
+    open(key: string): boolean {
+        const entry = this.entries.get(key);
+
+        if (!entry) {
+            this.forcedOpen.add(key);
+
+            return true;
+        }
+
+        entry.forced = true;
+
+        if (entry.breaker.opened) {
+            // Already open: only the forced flag changed
+            this.changeState(key, entry, 'OPEN');
+        } else {
+            entry.breaker.open();
+        }
+
+        return true;
+    }
+
+    /**
+     * Replace a breaker with a fresh closed one, dropping its statistics
+     */
+    reset(key: string): boolean {
+        const entry = this.entries.get(key);
+
+        if (!entry) {
+            return this.forcedOpen.delete(key);
+        }
+
+        entry.breaker.shutdown();
+        entry.breaker = this.createBreaker(key, entry.options);
+        entry.calls = this.createCallWindow(entry.options);
+        entry.cancellations = 0;
+        entry.forced = false;
+        entry.lastFailureAt = undefined;
+        entry.openCount = 0;
+        entry.openedAt = undefined;
+        entry.probes = 0;
+        this.changeState(key, entry, 'CLOSED');
+
+        return true;
+    }
+
+    private changeState(key: string, entry: CircuitBreakerEntry, state: GrpcCircuitState): void {
+        const change: GrpcCircuitStateChange = {
+            forced: entry.forced,
+            key,
+            previousState: entry.state,
+            state,
+            timestamp: new Date(),
+        };
+
+        entry.state = state;
+
+        if (state === 'OPEN' && change.previousState !== 'OPEN') {
+            entry.openCount++;
+            entry.openedAt = change.timestamp.getTime();
+        }
+
+        this.listeners.forEach((listener) => {
+            try {
+                listener(change);
+            } catch (error) {
+                this.logger.warn(`Circuit state listener failed for ${key}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Open a closed breaker once the slow call rate in the window reaches the threshold
+     */
+    private checkSlowCalls(key: string, entry: CircuitBreakerEntry): void {
+        const { slowCallDuration, slowCallRateThreshold, volumeThreshold = 0 } = entry.options;
+
+        if (!slowCallDuration || isNil(slowCallRateThreshold) || entry.state !== 'CLOSED') {
+            return;
+        }
+
+        const { calls, slowCalls } = entry.calls.summary();
+        const slowCallRate = calls > 0 ? (slowCalls / calls) * 100 : 0;
+
+        if (calls > 0 && calls >= volumeThreshold && slowCallRate >= slowCallRateThreshold) {
+            this.logger.warn(`Slow call rate ${slowCallRate.toFixed(1)}% reached the threshold for ${key}`);
+            entry.breaker.open();
+        }
+    }
+
+    private createBreaker(key: string, options: GrpcCircuitBreakerOptions): CircuitBreaker<unknown[], unknown> {
+        // Latency is tracked by CallWindow; opossum's percentiles keep every latency of the window in memory
+        const breakerOptions: CircuitBreaker.Options = {
+            rollingPercentilesEnabled: false,
+            ...omit(options, ['failureThreshold', 'halfOpenMaxCalls', 'slowCallDuration', 'slowCallRateThreshold']),
+        };
+        // Create a circuit breaker that will be used to wrap the actual function calls
+        const breaker = new CircuitBreaker(async (fn: () => Promise<unknown>) => await fn(), breakerOptions);
+        const entry = () => this.entries.get(key);
+
+        breaker.on('failure', () => {
+            const current = entry();
+
+            if (!current || current.breaker !== breaker) {
+                return;
+            }
+
+            current.lastFailureAt = Date.now();
+
+            if (options.failureThreshold && breaker.closed && breaker.stats.failures >= options.failureThreshold) {
+                this.logger.warn(`${breaker.stats.failures} failures reached the threshold for ${key}`);
+                breaker.open();
+            }
+        });
+
+        breaker.on('open', () => {
+            const current = entry();
+
+            if (!current || current.breaker !== breaker || current.state === 'OPEN') {
+                return;
+            }
+
+            this.logger.warn(`Circuit breaker ${current.forced ? 'forced open' : 'opened'} for ${key}`);
+            this.changeState(key, current, 'OPEN');
+        });
+
+        breaker.on('close', () => {
+            const current = entry();
+
+            if (!current || current.breaker !== breaker) {
+                return;
+            }
+
+            this.logger.log(`Circuit breaker closed for ${key}`);
+            // Start over, otherwise the slow calls that opened the breaker would open it again
+            current.calls.reset();
+            this.changeState(key, current, 'CLOSED');
+        });
+
+        breaker.on('halfOpen', () => {
+            const current = entry();
+
+            if (!current || current.breaker !== breaker) {
+                return;
+            }
+
+            // A manually opened breaker doesn't probe for recovery
+            if (current.forced) {
+                breaker.open();
+
+                return;
+            }
+
+            this.logger.log(`Circuit breaker half-open for ${key}`);
+            this.changeState(key, current, 'HALF_OPEN');
+        });
+
+        return breaker;
+    }
+
+    private createCallWindow({ rollingCountBuckets, rollingCountTimeout }: GrpcCircuitBreakerOptions): CallWindow {
+        // Same defaults as opossum
+        return new CallWindow(rollingCountTimeout ?? 10000, rollingCountBuckets ?? 10);
+    }
+
+    /**
+     * Feed the outcome of a call to its breaker: opossum updates the rolling stats and opens or closes the circuit.
+     * Without an outcome only the latency is recorded.
+     */
+    private async settle(
+        key: string,
+        breaker: CircuitBreaker<unknown[], unknown>,
+        latency: number,
+        outcome?: () => Promise<unknown>,
+    ): Promise<void> {
+        const entry = this.entries.get(key);
+
+        // Reset while the call was running
+        if (!entry || entry.breaker !== breaker) {
+            return;
+        }
+
+        const { slowCallDuration } = entry.options;
+
+        // Only the outcome is replayed, so latency is measured here rather than by opossum
+        entry.calls.record(latency, !!slowCallDuration && latency > slowCallDuration);
+
+        if (outcome) {
+            // Awaited so the circuit has opened or closed before the caller sees the outcome; a replay rejected
+            // because the circuit opened meanwhile is dropped
+            await breaker.fire(outcome).catch(noop);
+        }
+
+        this.checkSlowCalls(key, entry);
+    }
+
+    private toInfo(key: string, entry: CircuitBreakerEntry): GrpcCircuitBreakerInfo {
+        const { failures, fires, rejects, successes, timeouts } = entry.breaker.stats;
+        const { calls, latencyMean, slowCalls } = entry.calls.summary();
+        const { resetTimeout } = entry.options;
+
+        return {
+            forced: entry.forced,
+            key,
+            lastFailureTime: entry.lastFailureAt ? new Date(entry.lastFailureAt) : undefined,
+            nextAttempt:
+                entry.state === 'OPEN' && !entry.forced && entry.openedAt && resetTimeout
+                    ? new Date(entry.openedAt + resetTimeout)
+                    : undefined,
+            openCount: entry.openCount,
+            state: entry.state,
+            stats: {
+                cancellations: entry.cancellations,
+                errorRate: fires > 0 ? (failures / fires) * 100 : 0,
+                failures,
+                fires,
+                latencyMean,
+                rejects,
+                slowCallRate: calls > 0 ? (slowCalls / calls) * 100 : 0,
+                slowCalls,
+                successes,
+                timeouts,
+            },
+        };
+    }
+}
@@ -1,8 +1,16 @@
-import { DynamicModule, Module } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
 
+import { GrpcCircuitBreakerRegistry } from './circuit-breaker-registry';
 import { CircuitBreakerService } from './circuit-breaker.service';
 import { CircuitBreakerConfig } from './interfaces';
 
+// Breakers registered through CircuitBreakerService, injectable on their own
+const registryProvider: Provider = {
+    inject: [CircuitBreakerService],
+    provide: GrpcCircuitBreakerRegistry,
+    useFactory: (service: CircuitBreakerService) => service.getRegistry(),
+};
+
 /**
  * CIRCUIT BREAKER MODULE - Separate enhancement module
  * Only loaded when circuit breaker functionality is needed
@@ -21,8 +29,9 @@ export class GrpcCircuitBreakerModule {
                     provide: CircuitBreakerService,
                     useFactory: (cbConfig: CircuitBreakerConfig) => new CircuitBreakerService(cbConfig),
                 },
+                registryProvider,
             ],
-            exports: [CircuitBreakerService, 'CIRCUIT_BREAKER_CONFIG'],
+            exports: [CircuitBreakerService, GrpcCircuitBreakerRegistry, 'CIRCUIT_BREAKER_CONFIG'],
             global: true,
             module: GrpcCircuitBreakerModule,
         };
@@ -44,8 +53,9 @@ export class GrpcCircuitBreakerModule {
                     provide: CircuitBreakerService,
                     useFactory: (config: CircuitBreakerConfig) => new CircuitBreakerService(config),
                 },
+                registryProvider,
             ],
-            exports: [CircuitBreakerService, 'CIRCUIT_BREAKER_CONFIG'],
+            exports: [CircuitBreakerService, GrpcCircuitBreakerRegistry, 'CIRCUIT_BREAKER_CONFIG'],
             global: true,
             module: GrpcCircuitBreakerModule,
         };
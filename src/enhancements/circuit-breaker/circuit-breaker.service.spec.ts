@@ -0,0 +1,158 @@
+import { Logger } from '@nestjs/common';
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { CircuitBreakerService } from './circuit-breaker.service';
+
+const RECOVERY_TIMEOUT = 50;
+
+const unavailable = () => Object.assign(new Error('backend down'), { code: 14 });
+
+describe('CircuitBreakerService', () => {
+    let service: CircuitBreakerService;
+
+    const fail = () => service.execute('users', () => Promise.reject(unavailable())).catch(() => undefined);
+
+    // Open the breaker, then wait until it lets a probe through
+    const halfOpen = async () => {
+        await fail();
+        await fail();
+        await fail();
+        await sleep(RECOVERY_TIMEOUT + 20);
+        assert.equal(service.getState('users').state, 'HALF_OPEN');
+    };
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        service = new CircuitBreakerService({
+            failureThreshold: 3,
+            monitoringPeriod: 10000,
+            recoveryTimeout: RECOVERY_TIMEOUT,
+        });
+    });
+
+    afterEach(() => service.onModuleDestroy());
+
+    it('opens as soon as the failure threshold is reached', async () => {
+        await fail();
+        await fail();
+        assert.equal(service.getState('users').state, 'CLOSED');
+
+        await fail();
+        assert.equal(service.getState('users').state, 'OPEN');
+        assert.equal(service.getState('users').failureCount, 3);
+    });
+
+    it('rejects the call after the threshold without running it', async () => {
+        let runs = 0;
+
+        for (let i = 0; i < 6; i++) {
+            await service
+                .execute('users', () => {
+                    runs++;
+
+                    return Promise.reject(unavailable());
+                })
+                .catch(() => undefined);
+        }
+
+        assert.equal(runs, 3);
+        await assert.rejects(
+            service.execute('users', () => Promise.resolve('ok')),
+            /Circuit breaker is OPEN/,
+        );
+    });
+
+    it('has recorded the outcome by the time the call settles', async () => {
+        const registry = service.getRegistry();
+
+        service.getBreaker('users');
+
+        for (let i = 0; i < 3; i++) {
+            await assert.rejects(
+                registry.fire('users', () => Promise.reject(unavailable())),
+                /backend down/,
+            );
+        }
+
+        assert.equal(registry.getInfo('users')?.state, 'OPEN');
+        assert.equal(registry.getInfo('users')?.stats.failures, 3);
+    });
+
+    it('does not count successes towards the failure threshold', async () => {
+        for (let i = 0; i < 20; i++) {
+            await service.execute('users', () => Promise.resolve('ok'));
+        }
+
+        await fail();
+        await fail();
+        assert.equal(service.getState('users').state, 'CLOSED');
+    });
+
+    it('closes when the half-open probe succeeds', async () => {
+        await halfOpen();
+
+        assert.equal(await service.execute('users', () => Promise.resolve('ok')), 'ok');
+        assert.equal(service.getState('users').state, 'CLOSED');
+    });
+
+    it('reopens when the half-open probe fails', async () => {
+        await halfOpen();
+
+        await fail();
+        assert.equal(service.getState('users').state, 'OPEN');
+    });
+
+    it('lets a single probe through while half-open', async () => {
+        await halfOpen();
+
+        let release: (value: string) => void = () => undefined;
+        const probe = service.execute('users', () => new Promise<string>((resolve) => (release = resolve)));
+
+        await assert.rejects(
+            service.execute('users', () => Promise.resolve('ok')),
+            /Circuit breaker is OPEN/,
+        );
+
+        release('ok');
+        assert.equal(await probe, 'ok');
+        assert.equal(service.getState('users').state, 'CLOSED');
+    });
+
+    it('stays half-open when the probe fails with an error that is not a failure', async () => {
+        await halfOpen();
+
+        const notFound = Object.assign(new Error('no such user'), { code: 5 });
+
+        await assert.rejects(
+            service.execute('users', () => Promise.reject(notFound)),
+            /no such user/,
+        );
+        assert.equal(service.getState('users').state, 'HALF_OPEN');
+    });
+
+    it('leaves a cancelled probe out of the statistics', async () => {
+        await halfOpen();
+
+        const controller = new AbortController();
+        const probe = service.getRegistry().fire(
+            'users',
+            () =>
+                new Promise((_resolve, reject) => {
+                    controller.signal.addEventListener('abort', () => reject(new Error('cancelled')));
+                }),
+            controller.signal,
+        );
+
+        controller.abort();
+        await assert.rejects(probe, /cancelled/);
+
+        const info = service.getRegistry().getInfo('users');
+
+        assert.equal(info?.state, 'HALF_OPEN');
+        assert.equal(info?.stats.cancellations, 1);
+        assert.equal(info?.stats.successes, 0);
+    });
+});
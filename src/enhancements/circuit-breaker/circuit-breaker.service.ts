@@ -1,130 +1,194 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
 
+import { get, includes, isNumber, isString, some } from 'lodash';
+
+import CircuitBreaker from 'opossum';
+
+import { GRPC_STATUS_CODES } from '../../constants';
+
+import {
+    GrpcCircuitBreakerInfo,
+    GrpcCircuitBreakerOptions,
+    GrpcCircuitBreakerRegistry,
+} from './circuit-breaker-registry';
 import { CircuitBreakerConfig, CircuitBreakerMetrics, CircuitBreakerState } from './interfaces';
 
+// Codes that point at the dependency rather than at the request
+const DEFAULT_FAILURE_CODES: number[] = [
+    GRPC_STATUS_CODES.DATA_LOSS,
+    GRPC_STATUS_CODES.DEADLINE_EXCEEDED,
+    GRPC_STATUS_CODES.INTERNAL,
+    GRPC_STATUS_CODES.RESOURCE_EXHAUSTED,
+    GRPC_STATUS_CODES.UNAVAILABLE,
+    GRPC_STATUS_CODES.UNKNOWN,
+];
+
+/**
+ * Registry of named circuit breakers (one per service / method / dependency) sharing one config.
+ * Inject it into WrappedGrpc (`circuitBreakerService` option) so gRPC calls use the same breakers.
+ */
 @Injectable()
-export class CircuitBreakerService {
-    private state: CircuitBreakerState;
+export class CircuitBreakerService implements OnModuleDestroy {
+    static readonly DEFAULT_BREAKER = 'default';
+
     private readonly config: CircuitBreakerConfig;
-    private readonly logger = new Logger(CircuitBreakerService.name);
-    private metrics: CircuitBreakerMetrics;
-    private readonly requests: Array<{ responseTime: number; success: boolean; timestamp: Date }> = [];
+    private readonly registry = new GrpcCircuitBreakerRegistry();
 
     constructor(config: CircuitBreakerConfig) {
         this.config = config;
-        this.state = {
-            state: 'CLOSED',
-            failureCount: 0,
-            nextAttempt: new Date(),
-        };
-        this.metrics = {
-            averageResponseTime: 0,
-            circuitOpenCount: 0,
-            failedRequests: 0,
-            successfulRequests: 0,
-            totalRequests: 0,
-        };
     }
 
-    getMetrics(): CircuitBreakerMetrics {
-        return { ...this.metrics };
+    /**
+     * Opossum options for a breaker created from this config, optionally adjusted per breaker
+     */
+    createBreakerOptions(name: string, overrides: Partial<GrpcCircuitBreakerOptions> = {}): GrpcCircuitBreakerOptions {
+        const {
+            errorThresholdPercentage,
+            failureThreshold,
+            halfOpenMaxCalls,
+            monitoringPeriod,
+            recoveryTimeout,
+            slowCallDuration,
+            slowCallRateThreshold,
+            timeout,
+            volumeThreshold,
+        } = this.config;
+
+        return {
+            name,
+            allowWarmUp: false,
+            errorFilter: (error: unknown) => !this.isFailure(error), // filtered errors don't count as failures
+            // Rate based opening is opt-in; `failureThreshold` alone opens on a failure count
+            errorThresholdPercentage: errorThresholdPercentage ?? 100,
+            failureThreshold,
+            halfOpenMaxCalls,
+            resetTimeout: recoveryTimeout,
+            rollingCountTimeout: monitoringPeriod,
+            slowCallDuration,
+            slowCallRateThreshold,
+            timeout: timeout ?? false,
+            volumeThreshold: volumeThreshold ?? failureThreshold,
+            ...overrides,
+        };
     }
 
-    private getRecentRequests(): Array<{ responseTime: number; success: boolean; timestamp: Date }> {
-        const cutoffTime = new Date(Date.now() - this.config.monitoringPeriod);
+    /**
+     * Whether an error counts against the breaker: `isFailure` if configured, otherwise by gRPC status code.
+     * Errors without a code (database, HTTP, ...) count unless deprecated `expectedErrors` narrows them down.
+     */
+    isFailure(error: unknown): boolean {
+        const { expectedErrors, failureCodes = DEFAULT_FAILURE_CODES, isFailure } = this.config;
 
-        return this.requests.filter((req) => req.timestamp > cutoffTime);
-    }
+        if (isFailure) {
+            return isFailure(error);
+        }
 
-    getState(): CircuitBreakerState {
-        return { ...this.state };
-    }
+        const code = this.extractStatusCode(error);
 
-    private updateAverageResponseTime(): void {
-        const recentRequests = this.getRecentRequests();
+        if (isNumber(code)) {
+            return includes(failureCodes, code);
+        }
 
-        if (recentRequests.length > 0) {
-            const totalResponseTime = recentRequests.reduce((sum, req) => sum + req.responseTime, 0);
+        if (expectedErrors?.length) {
+            const message = error instanceof Error ? error.message : String(error);
 
-            this.metrics.averageResponseTime = totalResponseTime / recentRequests.length;
+            return some(expectedErrors, (expectedError) => message.includes(expectedError));
         }
+
+        return true;
     }
 
-    async execute<T>(operation: () => Promise<T>): Promise<T> {
-        if (this.state.state === 'OPEN') {
-            if (Date.now() < this.state.nextAttempt.getTime()) {
-                throw new Error('Circuit breaker is OPEN - requests blocked');
+    /**
+     * Run an operation through the default breaker or a named one
+     */
+    async execute<T>(operation: () => Promise<T>): Promise<T>;
+    async execute<T>(name: string, operation: () => Promise<T>): Promise<T>;
+    async execute<T>(nameOrOperation: (() => Promise<T>) | string, operation?: () => Promise<T>): Promise<T> {
+        const name = isString(nameOrOperation) ? nameOrOperation : CircuitBreakerService.DEFAULT_BREAKER;
+        const run = isString(nameOrOperation) ? operation! : nameOrOperation;
+
+        this.getBreaker(name);
+
+        try {
+            return await this.registry.fire(name, run);
+        } catch (error) {
+            if (get(error, 'code') !== 'EOPENBREAKER') {
+                throw error;
             }
 
-            this.state.state = 'HALF_OPEN';
+            throw Object.assign(new Error('Circuit breaker is OPEN - requests blocked'), { code: 'EOPENBREAKER' });
         }
+    }
 
-        const startTime = Date.now();
+    /**
+     * Get or create a named breaker. Run calls through `execute` (or the registry's `fire`): they measure latency
+     * for the slow-call threshold and keep cancelled calls out of the statistics.
+     */
+    getBreaker(name: string, overrides?: Partial<GrpcCircuitBreakerOptions>): CircuitBreaker<unknown[], unknown> {
+        return this.registry.get(name) ?? this.registry.getOrCreate(name, this.createBreakerOptions(name, overrides));
+    }
 
-        this.metrics.totalRequests++;
+    getBreakers(): GrpcCircuitBreakerInfo[] {
+        return this.registry.list();
+    }
 
-        try {
-            const result = await operation();
-            const responseTime = Date.now() - startTime;
+    getMetrics(name = CircuitBreakerService.DEFAULT_BREAKER): CircuitBreakerMetrics {
+        const info = this.getInfo(name);
 
-            this.recordSuccess(responseTime);
+        return {
+            averageResponseTime: info.stats.latencyMean,
+            circuitOpenCount: info.openCount,
+            failedRequests: info.stats.failures,
+            successfulRequests: info.stats.successes,
+            totalRequests: info.stats.fires,
+        };
+    }
 
-            if (this.state.state === 'HALF_OPEN') {
-                this.state.state = 'CLOSED';
-                this.state.failureCount = 0;
-            }
+    /**
+     * The underlying registry, shared with WrappedGrpc instances using this service
+     */
+    getRegistry(): GrpcCircuitBreakerRegistry {
+        return this.registry;
+    }
 
-            return result;
-        } catch (error) {
-            const responseTime = Date.now() - startTime;
+    getState(name = CircuitBreakerService.DEFAULT_BREAKER): CircuitBreakerState {
+        const info = this.getInfo(name);
 
-            this.recordFailure(error as Error, responseTime);
-            throw error;
-        }
+        return {
+            state: info.state,
+            failureCount: info.stats.failures,
+            lastFailureTime: info.lastFailureTime,
+            nextAttempt: info.nextAttempt ?? new Date(),
+        };
     }
 
-    reset(): void {
-        this.state = {
-            state: 'CLOSED',
-            failureCount: 0,
-            nextAttempt: new Date(),
-        };
-        this.logger.log('🔄 Circuit breaker reset to CLOSED');
+    onModuleDestroy(): void {
+        this.registry.clear();
     }
 
-    private recordFailure(error: Error, responseTime: number): void {
-        this.requests.push({
-            responseTime,
-            success: false,
-            timestamp: new Date(),
-        });
-        this.metrics.failedRequests++;
-        this.updateAverageResponseTime();
-
-        const isExpectedError = this.config.expectedErrors?.some((expectedError) =>
-            error.message.includes(expectedError),
-        );
-
-        if (isExpectedError) {
-            this.state.failureCount++;
-            this.state.lastFailureTime = new Date();
-
-            if (this.state.failureCount >= this.config.failureThreshold) {
-                this.state.state = 'OPEN';
-                this.state.nextAttempt = new Date(Date.now() + this.config.recoveryTimeout);
-                this.metrics.circuitOpenCount++;
-                this.logger.warn(`Circuit breaker OPENED after ${this.state.failureCount} failures`);
-            }
-        }
+    reset(name = CircuitBreakerService.DEFAULT_BREAKER): void {
+        this.registry.reset(name);
+    }
+
+    private getInfo(name: string): GrpcCircuitBreakerInfo {
+        this.getBreaker(name);
+
+        return this.registry.getInfo(name)!;
     }
 
-    private recordSuccess(responseTime: number): void {
-        this.requests.push({
-            responseTime,
-            success: true,
-            timestamp: new Date(),
-        });
-        this.metrics.successfulRequests++;
-        this.updateAverageResponseTime();
+    /**
+     * Status code of gRPC client errors (`code`) and RpcException-based exceptions (`getError().code`)
+     */
+    private extractStatusCode(error: unknown): number | undefined {
+        const code = get(error, 'code');
+
+        if (isNumber(code)) {
+            return code;
+        }
+
+        const rpcCode: unknown = error instanceof RpcException ? get(error.getError(), 'code') : undefined;
+
+        return isNumber(rpcCode) ? rpcCode : undefined;
     }
 }
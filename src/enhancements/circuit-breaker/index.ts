@@ -1,3 +1,5 @@
+export * from './circuit-breaker-registry';
+
 export * from './circuit-breaker.module';
 
 export * from './circuit-breaker.service';
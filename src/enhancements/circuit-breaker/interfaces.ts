@@ -1,8 +1,20 @@
 export interface CircuitBreakerConfig {
+    errorThresholdPercentage?: number; // failure rate that also opens a breaker (default: off)
+    /**
+     * @deprecated use `failureCodes` / `isFailure`. Errors without a gRPC code only count as failures
+     * when their message contains one of these strings.
+     */
     expectedErrors?: string[];
-    failureThreshold: number;
-    monitoringPeriod: number;
-    recoveryTimeout: number;
+    failureCodes?: number[]; // gRPC status codes that count as failures (default: server-side / availability codes)
+    failureThreshold: number; // failures within `monitoringPeriod` that open a breaker
+    halfOpenMaxCalls?: number; // probes let through at once while half-open (default 1); the first success closes
+    isFailure?: (error: unknown) => boolean; // custom classification, takes precedence over `failureCodes`
+    monitoringPeriod: number; // rolling window in milliseconds
+    recoveryTimeout: number; // milliseconds an open breaker waits before letting probes through
+    slowCallDuration?: number; // milliseconds after which a call counts as slow
+    slowCallRateThreshold?: number; // percentage of slow calls that opens a breaker
+    timeout?: number; // milliseconds before a call counts as failed (default: none)
+    volumeThreshold?: number; // calls in the window before the rate thresholds apply (default `failureThreshold`)
 }
 
 export interface CircuitBreakerMetrics {
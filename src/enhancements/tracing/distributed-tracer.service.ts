@@ -1,6 +1,14 @@
-import { randomUUID } from 'crypto';
+import { randomBytes } from 'crypto';
 
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { getActiveSpan, GrpcMetadataLike, runWithGrpcContext } from '../../shared';
+
+import { HttpSpanExporterOptions } from './json-http-span-exporter';
+import { OtlpHttpSpanExporter } from './otlp-http-span-exporter';
+import { BatchSpanProcessor, BatchSpanProcessorOptions, SpanExporter } from './span-exporter';
+import { extractTraceContext, injectTraceContext, SpanContext, TracePropagationOptions } from './trace-context';
+import { ZipkinSpanExporter } from './zipkin-span-exporter';
 
 export interface TraceLog {
     fields?: Record<string, unknown>;
@@ -15,46 +23,88 @@ export interface TraceSpan {
     logs: TraceLog[];
     operationName: string;
     parentSpanId?: string;
+    sampled: boolean; // false for spans dropped by sampling, which are not recorded or exported
     spanId: string;
     startTime: bigint;
+    startTimestamp: number; // epoch ms, startTime/endTime are only meaningful relative to each other
     status: 'active' | 'completed' | 'failed';
     tags: Record<string, unknown>;
     traceId: string;
+    traceState?: string; // `tracestate` received from the caller
+}
+
+/**
+ * Built-in exporter by format, sent to `url` (default: the collector's standard local endpoint)
+ */
+export interface SpanExporterConfig extends HttpSpanExporterOptions {
+    type: 'otlp' | 'zipkin';
 }
 
+let globalTracer: DistributedTracer | undefined;
+
+/**
+ * Tracer registered by TracingModule, used by @TraceOperation / @EnhancedOperation outside Nest injection
+ */
+export const getGlobalTracer = (): DistributedTracer | undefined => globalTracer;
+
+export const setGlobalTracer = (tracer: DistributedTracer | undefined): void => {
+    globalTracer = tracer;
+};
+
 export interface TracingOptions {
+    batch?: BatchSpanProcessorOptions;
     enableSampling?: boolean;
+    exporter?: SpanExporter | SpanExporterConfig; // where finished spans are sent, in batches
     maxSpans?: number;
+    propagation?: TracePropagationOptions; // headers written by `inject` (W3C `traceparent` is always written)
     samplingRate?: number; // 0.0 to 1.0
     serviceName: string;
 }
 
 @Injectable()
-export class DistributedTracer {
+export class DistributedTracer implements OnModuleDestroy {
     private readonly activeSpans = new Map<string, TraceSpan>();
     private readonly completedSpans: TraceSpan[] = [];
     private readonly logger = new Logger(DistributedTracer.name);
-    private readonly options: Required<TracingOptions>;
+    private readonly options: Required<Omit<TracingOptions, 'batch' | 'exporter'>>;
+    private readonly processor?: BatchSpanProcessor;
 
-    constructor(options: TracingOptions) {
+    constructor({ batch, exporter, ...options }: TracingOptions) {
         this.options = {
             enableSampling: true,
             maxSpans: 10000,
+            propagation: {},
             samplingRate: 1.0,
             ...options,
         };
+
+        if (exporter) {
+            this.processor = new BatchSpanProcessor(this.createExporter(exporter), batch);
+        }
     }
 
     /**
-     * Start a new trace span
+     * Start a new trace span, as a child of a local span id, of a span context (see `extract`)
+     * or, by default, of the active span. `null` starts a new trace whatever the active span is.
      */
-    startSpan(operationName: string, parentSpanId?: string, tags: Record<string, unknown> = {}): TraceSpan {
-        const traceId = parentSpanId ? this.getTraceId(parentSpanId) : randomUUID();
-        const spanId = randomUUID();
-
-        // Sampling logic
-        if (this.options.enableSampling && Math.random() > this.options.samplingRate) {
-            return this.createNoOpSpan(traceId, spanId, operationName);
+    startSpan(
+        operationName: string,
+        parent: null | SpanContext | string | undefined = this.getActiveSpan(),
+        tags: Record<string, unknown> = {},
+    ): TraceSpan {
+        const parentContext = typeof parent === 'string' ? undefined : (parent ?? undefined);
+        const parentSpanId = typeof parent === 'string' ? parent : parent?.spanId;
+        const traceId =
+            parentContext?.traceId ?? (parentSpanId ? this.getTraceId(parentSpanId) : this.generateTraceId());
+        const spanId = this.generateSpanId();
+
+        // Sampling logic: the caller's decision wins so a trace is never recorded only partially
+        const sampled = parentContext
+            ? parentContext.sampled
+            : !this.options.enableSampling || Math.random() <= this.options.samplingRate;
+
+        if (!sampled) {
+            return this.createNoOpSpan(traceId, spanId, operationName, parentContext);
         }
 
         const span: TraceSpan = {
@@ -62,14 +112,17 @@ export class DistributedTracer {
             logs: [],
             operationName,
             startTime: process.hrtime.bigint(),
+            startTimestamp: Date.now(),
             tags: {
                 'service.name': this.options.serviceName,
                 'span.kind': 'server',
                 ...tags,
             },
             parentSpanId,
+            sampled: true,
             spanId,
             traceId,
+            traceState: parentContext?.traceState,
         };
 
         this.activeSpans.set(spanId, span);
@@ -104,6 +157,7 @@ export class DistributedTracer {
 
         this.activeSpans.delete(spanId);
         this.completedSpans.push(span);
+        this.processor?.onEnd(span);
 
         // Cleanup old spans if needed
         if (this.completedSpans.length > this.options.maxSpans) {
@@ -143,6 +197,18 @@ export class DistributedTracer {
         });
     }
 
+    /**
+     * Log an exception on a span (`exception.type` / `exception.message` / `exception.stacktrace`)
+     */
+    recordException(spanId: string, error: unknown, fields: Record<string, unknown> = {}): void {
+        this.addLog(spanId, 'error', 'exception', {
+            'exception.message': error instanceof Error ? error.message : String(error),
+            'exception.stacktrace': error instanceof Error ? error.stack : undefined,
+            'exception.type': error instanceof Error ? error.constructor.name : typeof error,
+            ...fields,
+        });
+    }
+
     /**
      * Add tags to span
      */
@@ -195,25 +261,103 @@ export class DistributedTracer {
         };
     }
 
+    /**
+     * Span of the code currently running (set by `withSpan` and GrpcTracingInterceptor),
+     * the default parent of new spans
+     */
+    getActiveSpan(): TraceSpan | undefined {
+        return getActiveSpan();
+    }
+
+    /**
+     * Run `fn` with `span` as the active span: spans started and `WrappedGrpc` calls made inside,
+     * including after `await`, become its children
+     */
+    withSpan<T>(span: TraceSpan, fn: () => T): T {
+        return runWithGrpcContext({ activeSpan: span, metadata: this.inject<Record<string, string>>({}, span) }, fn);
+    }
+
+    /**
+     * Read the caller's span context from incoming gRPC metadata (W3C `traceparent` / `tracestate`, or B3)
+     */
+    extract(metadata: unknown): SpanContext | undefined {
+        return extractTraceContext(metadata);
+    }
+
+    /**
+     * Write the propagation headers of a span on outgoing gRPC metadata (or a plain header object)
+     */
+    inject<T extends GrpcMetadataLike | Record<string, unknown>>(metadata: T, span: SpanContext): T {
+        return injectTraceContext(metadata, span, this.options.propagation);
+    }
+
+    /**
+     * Export the spans finished so far without waiting for the next scheduled batch
+     */
+    async flush(): Promise<void> {
+        await this.processor?.flush();
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        await this.shutdown();
+    }
+
+    /**
+     * Export pending spans and stop exporting
+     */
+    async shutdown(): Promise<void> {
+        if (globalTracer === this) {
+            setGlobalTracer(undefined);
+        }
+
+        await this.processor?.shutdown();
+    }
+
     /**
      * Clear all spans (useful for testing)
      */
-    private createNoOpSpan(traceId: string, spanId: string, operationName: string): TraceSpan {
+    private createNoOpSpan(
+        traceId: string,
+        spanId: string,
+        operationName: string,
+        parentContext?: SpanContext,
+    ): TraceSpan {
         return {
             status: 'active',
             logs: [],
             operationName,
             startTime: process.hrtime.bigint(),
+            startTimestamp: Date.now(),
             tags: {},
+            parentSpanId: parentContext?.spanId,
+            sampled: false,
             spanId,
             traceId,
+            traceState: parentContext?.traceState,
         };
     }
 
     private getTraceId(spanId: string): string {
         const span = this.activeSpans.get(spanId);
 
-        return span?.traceId || randomUUID();
+        return span?.traceId || this.generateTraceId();
+    }
+
+    // W3C / OTLP sizes: 16-byte trace id, 8-byte span id, lowercase hex
+    private generateSpanId(): string {
+        return randomBytes(8).toString('hex');
+    }
+
+    private generateTraceId(): string {
+        return randomBytes(16).toString('hex');
+    }
+
+    private createExporter(exporter: SpanExporter | SpanExporterConfig): SpanExporter {
+        if (!('type' in exporter)) {
+            return exporter;
+        }
+
+        return exporter.type === 'zipkin' ? new ZipkinSpanExporter(exporter) : new OtlpHttpSpanExporter(exporter);
     }
 
     clear(): void {
@@ -1,3 +1,13 @@
 export * from './distributed-tracer.service';
 
+export * from './json-http-span-exporter';
+
+export * from './otlp-http-span-exporter';
+
+export * from './span-exporter';
+
+export * from './trace-context';
+
 export * from './tracing.module';
+
+export * from './zipkin-span-exporter';
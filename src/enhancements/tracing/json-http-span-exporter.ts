@@ -0,0 +1,50 @@
+import type { TraceSpan } from './distributed-tracer.service';
+import { SpanExporter } from './span-exporter';
+
+export interface HttpSpanExporterOptions {
+    headers?: Record<string, string>; // e.g. authentication for a hosted collector
+    timeout?: number; // ms per request (default 10000)
+    url?: string;
+}
+
+/**
+ * Base of the exporters POSTing a JSON encoding of each batch
+ */
+export abstract class JsonHttpSpanExporter implements SpanExporter {
+    protected readonly headers: Record<string, string>;
+    protected readonly timeout: number;
+    protected readonly url: string;
+
+    protected constructor(defaultUrl: string, options: HttpSpanExporterOptions = {}) {
+        this.headers = options.headers ?? {};
+        this.timeout = options.timeout ?? 10000;
+        this.url = options.url ?? defaultUrl;
+    }
+
+    async export(spans: TraceSpan[]): Promise<void> {
+        if (!spans.length) return;
+
+        const response = await fetch(this.url, {
+            body: JSON.stringify(this.encode(spans)),
+            headers: { 'content-type': 'application/json', ...this.headers },
+            method: 'POST',
+            signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+            throw new Error(`${this.url} responded ${response.status} ${response.statusText}`);
+        }
+    }
+
+    protected abstract encode(spans: TraceSpan[]): unknown;
+}
+
+/**
+ * Span start / end as epoch nanoseconds: wall clock start plus the monotonic duration
+ */
+export const getSpanTimes = (span: TraceSpan): { endNanos: bigint; startNanos: bigint } => {
+    const startNanos = BigInt(span.startTimestamp) * 1_000_000n;
+    const elapsed = span.endTime === undefined ? 0n : span.endTime - span.startTime;
+
+    return { endNanos: startNanos + elapsed, startNanos };
+};
@@ -0,0 +1,92 @@
+import { groupBy, isBoolean, isNil, isNumber, isString, map, omit, omitBy, toPairs } from 'lodash';
+
+import type { TraceSpan } from './distributed-tracer.service';
+import { getSpanTimes, HttpSpanExporterOptions, JsonHttpSpanExporter } from './json-http-span-exporter';
+
+type OtlpAnyValue =
+    | { arrayValue: { values: OtlpAnyValue[] } }
+    | { boolValue: boolean }
+    | { doubleValue: number }
+    | { intValue: string }
+    | { stringValue: string };
+
+interface OtlpAttribute {
+    key: string;
+    value: OtlpAnyValue;
+}
+
+// SpanKind of the OTLP protocol
+const SPAN_KINDS: Record<string, number> = {
+    client: 3,
+    consumer: 5,
+    internal: 1,
+    producer: 4,
+    server: 2,
+};
+
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+const toAnyValue = (value: unknown): OtlpAnyValue => {
+    if (isString(value)) return { stringValue: value };
+
+    if (isBoolean(value)) return { boolValue: value };
+
+    if (isNumber(value)) return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+
+    if (typeof value === 'bigint') return { intValue: value.toString() };
+
+    if (Array.isArray(value)) return { arrayValue: { values: map(value, toAnyValue) } };
+
+    return { stringValue: JSON.stringify(value) };
+};
+
+const toAttributes = (values: Record<string, unknown> = {}): OtlpAttribute[] =>
+    map(toPairs(omitBy(values, isNil)), ([key, value]) => ({ key, value: toAnyValue(value) }));
+
+/**
+ * Exports spans as OTLP/HTTP JSON (`/v1/traces` of an OpenTelemetry Collector, Jaeger, Tempo, ...)
+ */
+export class OtlpHttpSpanExporter extends JsonHttpSpanExporter {
+    constructor(options: HttpSpanExporterOptions = {}) {
+        super('http://localhost:4318/v1/traces', options);
+    }
+
+    protected encode(spans: TraceSpan[]): unknown {
+        const byService = groupBy(spans, (span) => String(span.tags['service.name'] ?? 'unknown_service'));
+
+        return {
+            resourceSpans: map(byService, (serviceSpans, serviceName) => ({
+                resource: { attributes: toAttributes({ 'service.name': serviceName }) },
+                scopeSpans: [
+                    { scope: { name: '@ecom-co/grpc' }, spans: map(serviceSpans, (span) => this.toSpan(span)) },
+                ],
+            })),
+        };
+    }
+
+    private toSpan(span: TraceSpan) {
+        const { endNanos, startNanos } = getSpanTimes(span);
+        const errorMessage = span.tags['error.message'];
+
+        return {
+            attributes: toAttributes(omit(span.tags, ['service.name', 'span.kind'])),
+            endTimeUnixNano: endNanos.toString(),
+            events: map(span.logs, (log) => ({
+                attributes: toAttributes({ level: log.level, ...log.fields }),
+                name: log.message,
+                timeUnixNano: (BigInt(log.timestamp) * 1_000_000n).toString(),
+            })),
+            kind: SPAN_KINDS[String(span.tags['span.kind'])] ?? SPAN_KINDS.internal,
+            name: span.operationName,
+            parentSpanId: span.parentSpanId,
+            spanId: span.spanId,
+            startTimeUnixNano: startNanos.toString(),
+            status:
+                span.status === 'failed'
+                    ? { code: STATUS_CODE_ERROR, message: isString(errorMessage) ? errorMessage : undefined }
+                    : { code: STATUS_CODE_UNSET },
+            traceId: span.traceId,
+        };
+    }
+}
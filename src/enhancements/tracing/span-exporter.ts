@@ -0,0 +1,107 @@
+import { Logger } from '@nestjs/common';
+
+import type { TraceSpan } from './distributed-tracer.service';
+
+/**
+ * Destination of finished spans (OTLP collector, Zipkin, a test double, ...)
+ */
+export interface SpanExporter {
+    export(spans: TraceSpan[]): Promise<void>;
+    shutdown?(): Promise<void>;
+}
+
+export interface BatchSpanProcessorOptions {
+    flushInterval?: number; // ms between scheduled exports (default 5000)
+    maxBatchSize?: number; // spans per export call; a full batch is exported right away (default 512)
+    maxQueueSize?: number; // spans waiting for export, newer spans are dropped beyond this (default 2048)
+}
+
+/**
+ * Queues finished spans and hands them to the exporter in batches, on size or on a timer.
+ * Export failures are logged and the batch is dropped, tracing never fails the traced call.
+ */
+export class BatchSpanProcessor {
+    private dropped = 0;
+    private exporting: Promise<void> = Promise.resolve();
+    private readonly logger = new Logger(BatchSpanProcessor.name);
+    private readonly options: Required<BatchSpanProcessorOptions>;
+    private readonly queue: TraceSpan[] = [];
+    private shutDown = false;
+    private readonly timer: NodeJS.Timeout;
+
+    constructor(
+        private readonly exporter: SpanExporter,
+        options: BatchSpanProcessorOptions = {},
+    ) {
+        this.options = {
+            flushInterval: 5000,
+            maxBatchSize: 512,
+            maxQueueSize: 2048,
+            ...options,
+        };
+
+        this.timer = setInterval(() => void this.flush(), this.options.flushInterval);
+        this.timer.unref(); // pending spans must not keep the process alive
+    }
+
+    /**
+     * Export everything queued so far
+     */
+    async flush(): Promise<void> {
+        while (this.queue.length) {
+            await this.exportBatch(this.queue.splice(0, this.options.maxBatchSize));
+        }
+
+        await this.exporting;
+    }
+
+    onEnd(span: TraceSpan): void {
+        if (this.shutDown) return;
+
+        if (this.queue.length >= this.options.maxQueueSize) {
+            if (this.dropped++ === 0) {
+                this.logger.warn(`Span queue is full (${this.options.maxQueueSize}), dropping spans`);
+            }
+
+            return;
+        }
+
+        this.queue.push(span);
+
+        if (this.queue.length >= this.options.maxBatchSize) {
+            void this.exportBatch(this.queue.splice(0, this.options.maxBatchSize));
+        }
+    }
+
+    /**
+     * Flush the queue and shut the exporter down; spans finished afterwards are ignored
+     */
+    async shutdown(): Promise<void> {
+        if (this.shutDown) return;
+
+        clearInterval(this.timer);
+        await this.flush();
+        this.shutDown = true;
+        await this.exporter.shutdown?.();
+    }
+
+    // Exports run one at a time, in the order spans finished
+    private exportBatch(batch: TraceSpan[]): Promise<void> {
+        this.exporting = this.exporting.then(async () => {
+            try {
+                await this.exporter.export(batch);
+            } catch (error) {
+                this.logger.error(`Failed to export ${batch.length} spans`, {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+
+            if (this.dropped > 0) {
+                this.logger.warn(`Dropped ${this.dropped} spans while the export queue was full`);
+                this.dropped = 0;
+            }
+        });
+
+        return this.exporting;
+    }
+}
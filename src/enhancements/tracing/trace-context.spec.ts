@@ -0,0 +1,96 @@
+import { Metadata } from '@grpc/grpc-js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+    B3_HEADER,
+    B3_SAMPLED_HEADER,
+    B3_SPAN_ID_HEADER,
+    B3_TRACE_ID_HEADER,
+    extractTraceContext,
+    formatTraceparent,
+    injectTraceContext,
+    parseTraceparent,
+    SpanContext,
+    TRACEPARENT_HEADER,
+    TRACESTATE_HEADER,
+} from './trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+const context: SpanContext = { sampled: true, spanId: SPAN_ID, traceId: TRACE_ID, traceState: 'congo=t61rcWkgMzE' };
+
+describe('trace context', () => {
+    it('round trips through grpc-js Metadata', () => {
+        const metadata = injectTraceContext(new Metadata(), context);
+
+        assert.equal(metadata.get(TRACEPARENT_HEADER)[0], `00-${TRACE_ID}-${SPAN_ID}-01`);
+        assert.equal(metadata.get(TRACESTATE_HEADER)[0], 'congo=t61rcWkgMzE');
+        assert.deepEqual(extractTraceContext(metadata), context);
+    });
+
+    it('round trips through a plain header object', () => {
+        const unsampled = { sampled: false, spanId: SPAN_ID, traceId: TRACE_ID, traceState: undefined };
+        const headers = injectTraceContext({}, unsampled);
+
+        assert.deepEqual(headers, { [TRACEPARENT_HEADER]: `00-${TRACE_ID}-${SPAN_ID}-00` });
+        assert.deepEqual(extractTraceContext(headers), unsampled);
+    });
+
+    it('writes and reads B3 single and multi headers', () => {
+        const { traceState: _traceState, ...b3Context } = context;
+        const single = injectTraceContext(new Metadata(), context, { b3: 'single' });
+        const multi = injectTraceContext(new Metadata(), context, { b3: 'multi' });
+
+        assert.equal(single.get(B3_HEADER)[0], `${TRACE_ID}-${SPAN_ID}-1`);
+        assert.equal(multi.get(B3_TRACE_ID_HEADER)[0], TRACE_ID);
+
+        single.remove(TRACEPARENT_HEADER);
+        multi.remove(TRACEPARENT_HEADER);
+        assert.deepEqual(extractTraceContext(single), b3Context);
+        assert.deepEqual(extractTraceContext(multi), b3Context);
+    });
+
+    it('pads 64-bit B3 trace ids and honours the sampling flag', () => {
+        const metadata = new Metadata();
+
+        metadata.set(B3_TRACE_ID_HEADER, 'a3ce929d0e0e4736');
+        metadata.set(B3_SPAN_ID_HEADER, SPAN_ID);
+        metadata.set(B3_SAMPLED_HEADER, '0');
+
+        assert.deepEqual(extractTraceContext(metadata), {
+            sampled: false,
+            spanId: SPAN_ID,
+            traceId: '0000000000000000a3ce929d0e0e4736',
+        });
+    });
+
+    it('prefers traceparent over B3 headers', () => {
+        const metadata = injectTraceContext(new Metadata(), { sampled: true, spanId: SPAN_ID, traceId: TRACE_ID });
+
+        metadata.set(B3_HEADER, `${'1'.repeat(32)}-${'2'.repeat(16)}-0`);
+
+        assert.equal(extractTraceContext(metadata)?.traceId, TRACE_ID);
+    });
+
+    it('rejects malformed and all-zero traceparent values', () => {
+        assert.equal(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`), undefined);
+        assert.equal(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`), undefined);
+        assert.equal(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`), undefined);
+        assert.equal(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`), undefined);
+        assert.equal(parseTraceparent('not a traceparent'), undefined);
+        assert.equal(extractTraceContext(undefined), undefined);
+    });
+
+    it('accepts fields appended by later traceparent versions', () => {
+        assert.deepEqual(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`), {
+            sampled: true,
+            spanId: SPAN_ID,
+            traceId: TRACE_ID,
+            traceState: undefined,
+        });
+        assert.equal(formatTraceparent({ sampled: false, spanId: SPAN_ID, traceId: TRACE_ID }).endsWith('-00'), true);
+    });
+});
@@ -0,0 +1,150 @@
+import { forEach } from 'lodash';
+
+import { getMetadataValue, GrpcMetadataLike, isGrpcMetadata } from '../../shared';
+
+/**
+ * Identity of a span as carried between services
+ */
+export interface SpanContext {
+    sampled: boolean;
+    spanId: string; // 16 lowercase hex chars
+    traceId: string; // 32 lowercase hex chars
+    traceState?: string; // vendor specific `tracestate`, forwarded untouched
+}
+
+export interface TracePropagationOptions {
+    b3?: 'multi' | 'single'; // also write B3 headers for Zipkin-instrumented peers (always accepted when reading)
+}
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+export const B3_HEADER = 'b3';
+export const B3_TRACE_ID_HEADER = 'x-b3-traceid';
+export const B3_SPAN_ID_HEADER = 'x-b3-spanid';
+export const B3_SAMPLED_HEADER = 'x-b3-sampled';
+
+const TRACE_ID_PATTERN = /^[\da-f]{32}$/;
+const SPAN_ID_PATTERN = /^[\da-f]{16}$/;
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+const isValidIds = (traceId: string, spanId: string): boolean =>
+    TRACE_ID_PATTERN.test(traceId) &&
+    SPAN_ID_PATTERN.test(spanId) &&
+    traceId !== INVALID_TRACE_ID &&
+    spanId !== INVALID_SPAN_ID;
+
+// B3 allows 64-bit trace ids, W3C needs 128 bits
+const padTraceId = (traceId: string): string => traceId.padStart(32, '0');
+
+/**
+ * Format a span context as a W3C `traceparent` value (`00-<trace id>-<span id>-<flags>`)
+ */
+export const formatTraceparent = ({ sampled, spanId, traceId }: SpanContext): string =>
+    `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+
+/**
+ * Parse a W3C `traceparent` value, undefined when it is malformed or uses invalid (all zero) ids
+ */
+export const parseTraceparent = (value: string | undefined, traceState?: string): SpanContext | undefined => {
+    const match = TRACEPARENT_PATTERN.exec(value?.trim().toLowerCase() ?? '');
+
+    if (!match) return undefined;
+
+    const [, version, traceId, spanId, flags, rest] = match;
+
+    // Version 00 has exactly four fields; later versions may append more
+    if (version === 'ff' || (version === '00' && rest !== undefined) || !isValidIds(traceId, spanId)) {
+        return undefined;
+    }
+
+    return {
+        sampled: (parseInt(flags, 16) & 1) === 1,
+        spanId,
+        traceId,
+        traceState: traceState?.trim() || undefined,
+    };
+};
+
+// Only an explicit deny stops sampling; `d` (debug) and a missing flag count as sampled
+const parseB3Sampled = (value: string | undefined): boolean => value !== '0' && value !== 'false';
+
+const extractB3 = (metadata: unknown): SpanContext | undefined => {
+    const single = getMetadataValue(metadata, B3_HEADER)?.trim().toLowerCase();
+
+    if (single) {
+        const [traceId = '', spanId = '', sampled] = single.split('-');
+
+        return isValidIds(padTraceId(traceId), spanId)
+            ? { sampled: parseB3Sampled(sampled), spanId, traceId: padTraceId(traceId) }
+            : undefined;
+    }
+
+    const traceId = padTraceId(getMetadataValue(metadata, B3_TRACE_ID_HEADER)?.trim().toLowerCase() ?? '');
+    const spanId = getMetadataValue(metadata, B3_SPAN_ID_HEADER)?.trim().toLowerCase() ?? '';
+
+    return isValidIds(traceId, spanId)
+        ? { sampled: parseB3Sampled(getMetadataValue(metadata, B3_SAMPLED_HEADER)), spanId, traceId }
+        : undefined;
+};
+
+/**
+ * Read the caller's span context from gRPC `Metadata` (or a plain header object):
+ * W3C `traceparent` / `tracestate` first, then B3 single or multi headers
+ */
+export const extractTraceContext = (metadata: unknown): SpanContext | undefined => {
+    if (!metadata) return undefined;
+
+    return (
+        parseTraceparent(
+            getMetadataValue(metadata, TRACEPARENT_HEADER),
+            getMetadataValue(metadata, TRACESTATE_HEADER),
+        ) ?? extractB3(metadata)
+    );
+};
+
+/**
+ * Headers propagating a span context to the next service
+ */
+export const getTraceHeaders = (
+    context: SpanContext,
+    options: TracePropagationOptions = {},
+): Record<string, string> => {
+    const headers: Record<string, string> = { [TRACEPARENT_HEADER]: formatTraceparent(context) };
+
+    if (context.traceState) {
+        headers[TRACESTATE_HEADER] = context.traceState;
+    }
+
+    if (options.b3 === 'single') {
+        headers[B3_HEADER] = `${context.traceId}-${context.spanId}-${context.sampled ? '1' : '0'}`;
+    }
+
+    if (options.b3 === 'multi') {
+        headers[B3_TRACE_ID_HEADER] = context.traceId;
+        headers[B3_SPAN_ID_HEADER] = context.spanId;
+        headers[B3_SAMPLED_HEADER] = context.sampled ? '1' : '0';
+    }
+
+    return headers;
+};
+
+/**
+ * Write the propagation headers of a span context on gRPC `Metadata` or a plain header object
+ */
+export const injectTraceContext = <T extends GrpcMetadataLike | Record<string, unknown>>(
+    metadata: T,
+    context: SpanContext,
+    options: TracePropagationOptions = {},
+): T => {
+    forEach(getTraceHeaders(context, options), (value, key) => {
+        if (isGrpcMetadata(metadata)) {
+            metadata.set(key, value);
+        } else {
+            (metadata as Record<string, unknown>)[key] = value;
+        }
+    });
+
+    return metadata;
+};
@@ -1,6 +1,19 @@
-import { DynamicModule, Module } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
 
-import { DistributedTracer, TracingOptions } from './distributed-tracer.service';
+import { DistributedTracer, setGlobalTracer, TracingOptions } from './distributed-tracer.service';
+
+// The tracer is also registered globally for @TraceOperation / @EnhancedOperation on classes Nest doesn't create
+const tracerProvider: Provider = {
+    inject: ['TRACING_OPTIONS'],
+    provide: DistributedTracer,
+    useFactory: (tracingOptions: TracingOptions) => {
+        const tracer = new DistributedTracer(tracingOptions);
+
+        setGlobalTracer(tracer);
+
+        return tracer;
+    },
+};
 
 @Module({})
 export class TracingModule {
@@ -11,11 +24,7 @@ export class TracingModule {
                     provide: 'TRACING_OPTIONS',
                     useValue: options,
                 },
-                {
-                    inject: ['TRACING_OPTIONS'],
-                    provide: DistributedTracer,
-                    useFactory: (tracingOptions: TracingOptions) => new DistributedTracer(tracingOptions),
-                },
+                tracerProvider,
             ],
             exports: [DistributedTracer],
             global: true,
@@ -34,11 +43,7 @@ export class TracingModule {
                     provide: 'TRACING_OPTIONS',
                     useFactory: options.useFactory,
                 },
-                {
-                    inject: ['TRACING_OPTIONS'],
-                    provide: DistributedTracer,
-                    useFactory: (tracingOptions: TracingOptions) => new DistributedTracer(tracingOptions),
-                },
+                tracerProvider,
             ],
             exports: [DistributedTracer],
             global: true,
@@ -0,0 +1,49 @@
+import { isNil, isObject, isString, map, mapValues, omit, omitBy } from 'lodash';
+
+import type { TraceSpan } from './distributed-tracer.service';
+import { getSpanTimes, HttpSpanExporterOptions, JsonHttpSpanExporter } from './json-http-span-exporter';
+
+const ZIPKIN_KINDS: Record<string, string> = {
+    client: 'CLIENT',
+    consumer: 'CONSUMER',
+    producer: 'PRODUCER',
+    server: 'SERVER',
+};
+
+/**
+ * Exports spans in the Zipkin v2 JSON format (`/api/v2/spans` of Zipkin or a compatible collector)
+ */
+export class ZipkinSpanExporter extends JsonHttpSpanExporter {
+    constructor(options: HttpSpanExporterOptions = {}) {
+        super('http://localhost:9411/api/v2/spans', options);
+    }
+
+    protected encode(spans: TraceSpan[]): unknown {
+        return map(spans, (span) => this.toSpan(span));
+    }
+
+    private toSpan(span: TraceSpan) {
+        const { endNanos, startNanos } = getSpanTimes(span);
+        const errorMessage = span.tags['error.message'];
+        const tags = mapValues(omitBy(omit(span.tags, ['service.name', 'span.kind']), isNil), (value) =>
+            isObject(value) ? JSON.stringify(value) : String(value),
+        );
+
+        if (span.status === 'failed') {
+            tags.error = isString(errorMessage) ? errorMessage : 'true';
+        }
+
+        return {
+            annotations: map(span.logs, (log) => ({ timestamp: log.timestamp * 1000, value: log.message })),
+            duration: Math.max(1, Number((endNanos - startNanos) / 1000n)), // µs, zero is rejected
+            id: span.spanId,
+            kind: ZIPKIN_KINDS[String(span.tags['span.kind'])],
+            localEndpoint: { serviceName: String(span.tags['service.name'] ?? 'unknown') },
+            name: span.operationName,
+            parentId: span.parentSpanId,
+            tags,
+            timestamp: Number(startNanos / 1000n), // µs
+            traceId: span.traceId,
+        };
+    }
+}
@@ -0,0 +1,153 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v2.12.4
+//   protoc               v3.21.12
+// source: auth.proto
+
+/* eslint-disable */
+import { GrpcMethod, GrpcStreamMethod } from "@nestjs/microservices";
+import { Observable } from "rxjs";
+import { Empty } from "./google/protobuf/empty";
+
+export const protobufPackage = "auth";
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  /** optional metadata */
+  metadata: { [key: string]: string };
+}
+
+export interface LoginRequest_MetadataEntry {
+  key: string;
+  value: string;
+}
+
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  username: string;
+  password: string;
+  /** optional metadata */
+  metadata: { [key: string]: string };
+}
+
+export interface RegisterRequest_MetadataEntry {
+  key: string;
+  value: string;
+}
+
+export interface GetProfileResponse {
+  user: AuthUser | undefined;
+  message: string;
+}
+
+export interface TokenMetadata {
+  exp: number;
+  iat: number;
+  jti: string;
+  ssid: string;
+}
+
+export interface TokenResponse {
+  metadata: TokenMetadata | undefined;
+  token: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  username: string;
+  isActive: boolean;
+  firstName: string;
+  fullName: string;
+  lastName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AuthResponse {
+  accessToken: TokenResponse | undefined;
+  refreshToken: TokenResponse | undefined;
+  ssid: string;
+  user: AuthUser | undefined;
+}
+
+export interface PermissionGroup {
+  permissions: string[];
+}
+
+export interface ResourceRef {
+  /** optional */
+  id:
+    | string
+    | undefined;
+  /** optional */
+  type: string | undefined;
+}
+
+export interface CheckAccessRequest {
+  /** flat permissions */
+  permissions: string[];
+  /** groups of permissions */
+  groups: PermissionGroup[];
+  /** AND | OR */
+  logic: string;
+  /** optional resource reference */
+  resource: ResourceRef | undefined;
+}
+
+export interface CheckAccessResponse {
+  allowed: boolean;
+  /** optional explanation */
+  reason: string;
+  /** current user when available */
+  user: AuthUser | undefined;
+}
+
+export const AUTH_PACKAGE_NAME = "auth";
+
+export interface AuthServiceClient {
+  login(request: LoginRequest): Observable<AuthResponse>;
+
+  register(request: RegisterRequest): Observable<AuthResponse>;
+
+  refreshToken(request: Empty): Observable<AuthResponse>;
+
+  getProfile(request: Empty): Observable<GetProfileResponse>;
+
+  checkAccess(request: CheckAccessRequest): Observable<CheckAccessResponse>;
+}
+
+export interface AuthServiceController {
+  login(request: LoginRequest): Promise<AuthResponse> | Observable<AuthResponse> | AuthResponse;
+
+  register(request: RegisterRequest): Promise<AuthResponse> | Observable<AuthResponse> | AuthResponse;
+
+  refreshToken(request: Empty): Promise<AuthResponse> | Observable<AuthResponse> | AuthResponse;
+
+  getProfile(request: Empty): Promise<GetProfileResponse> | Observable<GetProfileResponse> | GetProfileResponse;
+
+  checkAccess(
+    request: CheckAccessRequest,
+  ): Promise<CheckAccessResponse> | Observable<CheckAccessResponse> | CheckAccessResponse;
+}
+
+export function AuthServiceControllerMethods() {
+  return function (constructor: Function) {
+    const grpcMethods: string[] = ["login", "register", "refreshToken", "getProfile", "checkAccess"];
+    for (const method of grpcMethods) {
+      const descriptor: any = Reflect.getOwnPropertyDescriptor(constructor.prototype, method);
+      GrpcMethod("AuthService", method)(constructor.prototype[method], method, descriptor);
+      Object.defineProperty(constructor.prototype, method, descriptor);
+    }
+    const grpcStreamMethods: string[] = [];
+    for (const method of grpcStreamMethods) {
+      const descriptor: any = Reflect.getOwnPropertyDescriptor(constructor.prototype, method);
+      GrpcStreamMethod("AuthService", method)(constructor.prototype[method], method, descriptor);
+      Object.defineProperty(constructor.prototype, method, descriptor);
+    }
+  };
+}
+
+export const AUTH_SERVICE_NAME = "AuthService";
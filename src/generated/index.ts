@@ -0,0 +1,3 @@
+// Code generated by scripts/generate-proto.sh. DO NOT EDIT.
+export * as auth from './auth';
+export * as user from './user';
@@ -0,0 +1,138 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v2.12.4
+//   protoc               v3.21.12
+// source: user.proto
+
+/* eslint-disable */
+import { GrpcMethod, GrpcStreamMethod } from "@nestjs/microservices";
+import { Observable } from "rxjs";
+
+export const protobufPackage = "user";
+
+export interface CreateUserRequest {
+  firstName: string;
+  lastName: string;
+  username: string;
+  email: string;
+  password: string;
+}
+
+export interface GetUserRequest {
+  id: string;
+}
+
+export interface UpdateUserRequest {
+  id: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  email: string;
+  isActive: boolean;
+}
+
+export interface DeleteUserRequest {
+  id: string;
+}
+
+export interface ListUsersRequest {
+  page: number;
+  limit: number;
+}
+
+export interface UserResponseDto {
+  id: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  email: string;
+  fullName: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeleteResponseData {
+  success: boolean;
+  message: string;
+}
+
+/** API Response wrapper for single user operations */
+export interface ApiResponseData {
+  /** For user operations */
+  data:
+    | UserResponseDto
+    | undefined;
+  /** For delete operations */
+  deleteData: DeleteResponseData | undefined;
+  message: string;
+  statusCode: number;
+}
+
+export interface Paging {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  currentPageSize: number;
+  startItem: number;
+  endItem: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  firstPage: number;
+}
+
+/** API Response wrapper for paginated operations */
+export interface ApiPaginatedResponseData {
+  data: UserResponseDto[];
+  paging: Paging | undefined;
+  message: string;
+  statusCode: number;
+}
+
+export const USER_PACKAGE_NAME = "user";
+
+export interface UserServiceClient {
+  createUser(request: CreateUserRequest): Observable<ApiResponseData>;
+
+  getUser(request: GetUserRequest): Observable<ApiResponseData>;
+
+  updateUser(request: UpdateUserRequest): Observable<ApiResponseData>;
+
+  deleteUser(request: DeleteUserRequest): Observable<ApiResponseData>;
+
+  listUsers(request: ListUsersRequest): Observable<ApiPaginatedResponseData>;
+}
+
+export interface UserServiceController {
+  createUser(request: CreateUserRequest): Promise<ApiResponseData> | Observable<ApiResponseData> | ApiResponseData;
+
+  getUser(request: GetUserRequest): Promise<ApiResponseData> | Observable<ApiResponseData> | ApiResponseData;
+
+  updateUser(request: UpdateUserRequest): Promise<ApiResponseData> | Observable<ApiResponseData> | ApiResponseData;
+
+  deleteUser(request: DeleteUserRequest): Promise<ApiResponseData> | Observable<ApiResponseData> | ApiResponseData;
+
+  listUsers(
+    request: ListUsersRequest,
+  ): Promise<ApiPaginatedResponseData> | Observable<ApiPaginatedResponseData> | ApiPaginatedResponseData;
+}
+
+export function UserServiceControllerMethods() {
+  return function (constructor: Function) {
+    const grpcMethods: string[] = ["createUser", "getUser", "updateUser", "deleteUser", "listUsers"];
+    for (const method of grpcMethods) {
+      const descriptor: any = Reflect.getOwnPropertyDescriptor(constructor.prototype, method);
+      GrpcMethod("UserService", method)(constructor.prototype[method], method, descriptor);
+      Object.defineProperty(constructor.prototype, method, descriptor);
+    }
+    const grpcStreamMethods: string[] = [];
+    for (const method of grpcStreamMethods) {
+      const descriptor: any = Reflect.getOwnPropertyDescriptor(constructor.prototype, method);
+      GrpcStreamMethod("UserService", method)(constructor.prototype[method], method, descriptor);
+      Object.defineProperty(constructor.prototype, method, descriptor);
+    }
+  };
+}
+
+export const USER_SERVICE_NAME = "UserService";
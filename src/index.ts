@@ -11,6 +11,8 @@ export * from './exceptions';
 
 export * from './filters';
 
+export * from './generated';
+
 export * from './interceptors';
 
 export * from './pipes';
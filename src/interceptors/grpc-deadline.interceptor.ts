@@ -0,0 +1,74 @@
+import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+
+import { isDate, isFinite, isFunction, isNumber } from 'lodash';
+
+import { Observable } from 'rxjs';
+
+import { runWithGrpcContext } from '../shared';
+
+interface DeadlineOption {
+    maxDeadline?: number; // cap for incoming deadlines in milliseconds
+}
+
+/**
+ * Reads the deadline of the incoming gRPC call and exposes it to the request context,
+ * so `WrappedGrpc` calls made while handling the request inherit the remaining time.
+ */
+@Injectable()
+export class GrpcDeadlineInterceptor implements NestInterceptor {
+    private readonly logger = new Logger(GrpcDeadlineInterceptor.name);
+
+    constructor(private readonly options: DeadlineOption = {}) {}
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        if (context.getType() !== 'rpc') {
+            return next.handle();
+        }
+
+        const deadline = this.resolveDeadline(context.getArgByIndex(2));
+
+        if (!deadline) {
+            return next.handle();
+        }
+
+        this.logger.debug(`Incoming deadline in ${deadline.getTime() - Date.now()}ms`);
+
+        return runWithGrpcContext({ deadline }, () => next.handle());
+    }
+
+    protected extractDeadline(call: unknown): Date | null {
+        const getDeadline = (call as null | { getDeadline?: () => unknown })?.getDeadline;
+
+        if (!isFunction(getDeadline)) {
+            return null;
+        }
+
+        const deadline = getDeadline.call(call);
+
+        if (isDate(deadline)) {
+            return deadline;
+        }
+
+        // grpc-js reports "no deadline" as Infinity
+        if (isNumber(deadline) && isFinite(deadline)) {
+            return new Date(deadline);
+        }
+
+        return null;
+    }
+
+    private resolveDeadline(call: unknown): Date | null {
+        const deadline = this.extractDeadline(call);
+        const { maxDeadline } = this.options;
+
+        if (!maxDeadline) {
+            return deadline;
+        }
+
+        const cap = new Date(Date.now() + maxDeadline);
+
+        return !deadline || deadline > cap ? cap : deadline;
+    }
+}
+
+export const createGrpcDeadlineInterceptor = (options?: DeadlineOption) => new GrpcDeadlineInterceptor(options);
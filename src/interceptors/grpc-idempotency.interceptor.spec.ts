@@ -0,0 +1,117 @@
+import { Metadata } from '@grpc/grpc-js';
+
+import { Reflector } from '@nestjs/core';
+
+import { CallHandler, ExecutionContext, Logger } from '@nestjs/common';
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+
+import { defer, lastValueFrom, Observable, of, Subject, throwError } from 'rxjs';
+
+import { GrpcMethod } from '../decorators';
+import { GrpcAbortedException } from '../exceptions';
+import { GRPC_IDEMPOTENCY_KEY_HEADER } from '../shared';
+
+import { GrpcIdempotencyInterceptor } from './grpc-idempotency.interceptor';
+
+class UserController {
+    @GrpcMethod('UserService', 'CreateUser')
+    createUser() {
+        return undefined;
+    }
+
+    @GrpcMethod('UserService', 'GetUser', { sideEffects: false })
+    getUser() {
+        return undefined;
+    }
+}
+
+const createContext = (handler: () => unknown, idempotencyKey?: string) => {
+    const metadata = new Metadata();
+
+    if (idempotencyKey) {
+        metadata.set(GRPC_IDEMPOTENCY_KEY_HEADER, idempotencyKey);
+    }
+
+    return {
+        getClass: () => UserController,
+        getHandler: () => handler,
+        getType: () => 'rpc',
+        switchToRpc: () => ({ getContext: () => metadata }),
+    } as unknown as ExecutionContext;
+};
+
+/**
+ * Handler answering with `respond()`, counting its runs
+ */
+const createHandler = (respond: () => Observable<unknown>) => {
+    const handler = { runs: 0 } as CallHandler & { runs: number };
+
+    handler.handle = () => {
+        handler.runs++;
+
+        return respond();
+    };
+
+    return handler;
+};
+
+describe('GrpcIdempotencyInterceptor', () => {
+    const { createUser, getUser } = UserController.prototype;
+    let interceptor: GrpcIdempotencyInterceptor;
+
+    beforeEach(() => {
+        Logger.overrideLogger(false);
+        interceptor = new GrpcIdempotencyInterceptor(new Reflector());
+    });
+
+    const call = (handler: CallHandler, method: () => unknown, key?: string) =>
+        lastValueFrom(interceptor.intercept(createContext(method, key), handler));
+
+    it('replays the stored response to a duplicate of a completed call', async () => {
+        let id = 0;
+        const handler = createHandler(() => defer(() => of({ id: ++id })));
+
+        assert.deepEqual(await call(handler, createUser, 'key-1'), { id: 1 });
+        assert.deepEqual(await call(handler, createUser, 'key-1'), { id: 1 });
+        assert.equal(handler.runs, 1);
+
+        assert.deepEqual(await call(handler, createUser, 'key-2'), { id: 2 });
+        assert.equal(handler.runs, 2);
+    });
+
+    it('aborts a duplicate of a call still in progress', async () => {
+        const response = new Subject<unknown>();
+        const handler = createHandler(() => response);
+        const first = call(handler, createUser, 'key-1');
+
+        await assert.rejects(call(handler, createUser, 'key-1'), GrpcAbortedException);
+
+        response.next({ id: 1 });
+        response.complete();
+        assert.deepEqual(await first, { id: 1 });
+        assert.equal(handler.runs, 1);
+    });
+
+    it('lets the client retry a call that failed', async () => {
+        let fail = true;
+        const handler = createHandler(() => (fail ? throwError(() => new Error('boom')) : of({ id: 1 })));
+
+        await assert.rejects(call(handler, createUser, 'key-1'), /boom/);
+        fail = false;
+        assert.deepEqual(await call(handler, createUser, 'key-1'), { id: 1 });
+        assert.equal(handler.runs, 2);
+    });
+
+    it('does not deduplicate idempotent handlers or calls without a key', async () => {
+        const handler = createHandler(() => of({}));
+
+        await call(handler, getUser, 'key-1');
+        await call(handler, getUser, 'key-1');
+        await call(handler, createUser);
+        await call(handler, createUser);
+
+        assert.equal(handler.runs, 4);
+    });
+});
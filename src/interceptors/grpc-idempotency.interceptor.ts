@@ -0,0 +1,204 @@
+import { Reflector } from '@nestjs/core';
+
+import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+
+import { from, Observable, of, throwError } from 'rxjs';
+import { mergeMap, tap } from 'rxjs/operators';
+
+import { GRPC_METHOD_METADATA, GrpcMethodMetadata } from '../decorators';
+import { GrpcAbortedException } from '../exceptions';
+import { getMetadataValue, GRPC_IDEMPOTENCY_KEY_HEADER } from '../shared';
+
+export interface IdempotencyRecord {
+    response?: unknown;
+    status: 'completed' | 'pending';
+}
+
+/**
+ * Storage for idempotency records. All methods are async so it can be backed by Redis
+ * (`setIfAbsent` maps to `SET key value NX PX ttl`).
+ */
+export interface IdempotencyStore {
+    delete(key: string): Promise<void>;
+    get(key: string): Promise<IdempotencyRecord | undefined>;
+    set(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+    setIfAbsent(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean>;
+}
+
+interface IdempotencyOption {
+    pendingTtl?: number; // ms a request in progress blocks duplicates
+    store?: IdempotencyStore;
+    window?: number; // ms a completed response is replayed for duplicates
+}
+
+/**
+ * Default in-memory store (per process). Keys are per call and rarely read again, so expired records are
+ * swept at most every `sweepInterval` ms while records are written, rather than only dropped when read.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    private nextSweepAt: number;
+    private readonly records = new Map<string, { expiresAt: number; record: IdempotencyRecord }>();
+
+    constructor(private readonly sweepInterval = 60000) {
+        this.nextSweepAt = Date.now() + sweepInterval;
+    }
+
+    delete(key: string): Promise<void> {
+        this.records.delete(key);
+
+        return Promise.resolve();
+    }
+
+    get(key: string): Promise<IdempotencyRecord | undefined> {
+        return Promise.resolve(this.read(key));
+    }
+
+    set(key: string, record: IdempotencyRecord, ttl: number): Promise<void> {
+        const now = Date.now();
+
+        if (now >= this.nextSweepAt) {
+            this.sweep(now);
+        }
+
+        this.records.set(key, { expiresAt: now + ttl, record });
+
+        return Promise.resolve();
+    }
+
+    setIfAbsent(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean> {
+        // Check and write in the same tick so concurrent duplicates cannot both claim the key
+        if (this.read(key)) {
+            return Promise.resolve(false);
+        }
+
+        void this.set(key, record, ttl);
+
+        return Promise.resolve(true);
+    }
+
+    private read(key: string): IdempotencyRecord | undefined {
+        const entry = this.records.get(key);
+
+        if (!entry) return undefined;
+
+        if (Date.now() > entry.expiresAt) {
+            this.records.delete(key);
+
+            return undefined;
+        }
+
+        return entry.record;
+    }
+
+    private sweep(now: number): void {
+        this.records.forEach((entry, key) => {
+            if (now > entry.expiresAt) {
+                this.records.delete(key);
+            }
+        });
+        this.nextSweepAt = now + this.sweepInterval;
+    }
+}
+
+/**
+ * Deduplicates calls carrying the same `idempotency-key` header (sent by WrappedGrpc with
+ * `idempotencyKey: true`): the first call runs, duplicates in progress get ABORTED (retryable),
+ * and duplicates after completion get the stored response.
+ * Handlers marked `idempotent` via `@GrpcMethod` are not deduplicated.
+ */
+@Injectable()
+export class GrpcIdempotencyInterceptor implements NestInterceptor {
+    private readonly logger = new Logger(GrpcIdempotencyInterceptor.name);
+    private readonly options: Required<IdempotencyOption>;
+
+    constructor(
+        private readonly reflector: Reflector,
+        options: IdempotencyOption = {},
+    ) {
+        this.options = {
+            pendingTtl: options.pendingTtl ?? 30000,
+            store: options.store ?? new InMemoryIdempotencyStore(),
+            window: options.window ?? 300000,
+        };
+    }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        if (context.getType() !== 'rpc') {
+            return next.handle();
+        }
+
+        const idempotencyKey = getMetadataValue(context.switchToRpc().getContext(), GRPC_IDEMPOTENCY_KEY_HEADER);
+
+        if (!idempotencyKey) {
+            return next.handle();
+        }
+
+        const methodMetadata = this.reflector.get<GrpcMethodMetadata>(GRPC_METHOD_METADATA, context.getHandler());
+
+        // Idempotent handlers are safe to run again
+        if (methodMetadata?.idempotent) {
+            return next.handle();
+        }
+
+        const serviceName = methodMetadata?.service || context.getClass().name;
+        const methodName = methodMetadata?.method || context.getHandler().name;
+        const key = `${serviceName}.${methodName}:${idempotencyKey}`;
+        const { pendingTtl, store } = this.options;
+
+        return from(store.setIfAbsent(key, { status: 'pending' }, pendingTtl)).pipe(
+            mergeMap((claimed) => (claimed ? this.execute(key, next) : this.replay(key, next))),
+        );
+    }
+
+    private execute(key: string, next: CallHandler): Observable<unknown> {
+        const { store, window } = this.options;
+        let response: unknown;
+
+        return next.handle().pipe(
+            tap({
+                complete: () => {
+                    store
+                        .set(key, { response, status: 'completed' }, window)
+                        .catch((error) => this.logger.warn(`Failed to store idempotency record ${key}:`, error));
+                },
+                error: () => {
+                    // Let the client retry a failed call
+                    store
+                        .delete(key)
+                        .catch((error) => this.logger.warn(`Failed to release idempotency key ${key}:`, error));
+                },
+                next: (value) => {
+                    response = value;
+                },
+            }),
+        );
+    }
+
+    private replay(key: string, next: CallHandler): Observable<unknown> {
+        return from(this.options.store.get(key)).pipe(
+            mergeMap((record) => {
+                if (!record) {
+                    // Expired in between, nothing to deduplicate against
+                    return next.handle();
+                }
+
+                if (record.status === 'pending') {
+                    return throwError(
+                        () =>
+                            new GrpcAbortedException(
+                                'Duplicate request',
+                                'a call with this idempotency key is in progress',
+                            ),
+                    );
+                }
+
+                this.logger.debug(`Replaying stored response for ${key}`);
+
+                return of(record.response);
+            }),
+        );
+    }
+}
+
+export const createGrpcIdempotencyInterceptor = (options?: IdempotencyOption) => (reflector: Reflector) =>
+    new GrpcIdempotencyInterceptor(reflector, options);
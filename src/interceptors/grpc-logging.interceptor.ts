@@ -12,6 +12,8 @@ import { Observable, throwError } from 'rxjs';
 import { catchError, tap } from 'rxjs/operators';
 
 import { GRPC_METHOD_METADATA, GrpcMethodMetadata } from '../decorators';
+import { extractTraceContext } from '../enhancements/tracing';
+import { getGrpcContext, runWithGrpcContext } from '../shared';
 
 enum LogLevel {
     DEBUG = 'debug',
@@ -105,6 +107,7 @@ export class GrpcLoggingInterceptor implements NestInterceptor {
                 this.extractFromMetadata(metadata, 'x-request-id') ||
                 randomUUID(),
             traceId:
+                this.extractTraceId(metadata) ||
                 this.extractFromMetadata(metadata, 'trace-id') ||
                 this.extractFromMetadata(metadata, 'x-trace-id') ||
                 randomUUID(),
@@ -127,7 +130,10 @@ export class GrpcLoggingInterceptor implements NestInterceptor {
             this.logRequestDetails(logContext, methodMetadata, data);
         }
 
-        return next.handle().pipe(
+        // Downstream WrappedGrpc calls made while handling this request forward the same ids
+        const handler$ = runWithGrpcContext({ metadata: this.buildForwardedMetadata(logContext) }, () => next.handle());
+
+        return handler$.pipe(
             tap((response) => {
                 const duration = Date.now() - startTime;
 
@@ -143,6 +149,14 @@ export class GrpcLoggingInterceptor implements NestInterceptor {
         );
     }
 
+    protected buildForwardedMetadata(logContext: LogContext): Record<string, string> {
+        return {
+            'correlation-id': logContext.correlationId,
+            'trace-id': logContext.traceId,
+            'x-request-id': logContext.requestId,
+        };
+    }
+
     protected extractFromMetadata(metadata: any, key: string): null | string {
         if (!metadata) return null;
 
@@ -157,6 +171,13 @@ export class GrpcLoggingInterceptor implements NestInterceptor {
         }
     }
 
+    /**
+     * Trace id of the span opened by GrpcTracingInterceptor, else of the caller's `traceparent` / B3 headers
+     */
+    protected extractTraceId(metadata: any): null | string {
+        return (extractTraceContext(getGrpcContext()?.metadata) ?? extractTraceContext(metadata))?.traceId ?? null;
+    }
+
     protected logError(logContext: LogContext, duration: number, error: any): void {
         const { methodName, serviceName, timestamp, correlationId, requestId, traceId } = logContext;
 
@@ -183,6 +204,7 @@ export class GrpcLoggingInterceptor implements NestInterceptor {
             metadata: methodMetadata
                 ? {
                       description: methodMetadata.description,
+                      idempotent: methodMetadata.idempotent,
                       rateLimit: methodMetadata.rateLimit,
                       requiresAuth: methodMetadata.requiresAuth,
                   }
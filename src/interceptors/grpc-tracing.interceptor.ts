@@ -0,0 +1,152 @@
+import { Reflector } from '@nestjs/core';
+
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+
+import { get, isFunction, isNil, isNumber } from 'lodash';
+
+import { isObservable, Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { GRPC_STATUS_CODES } from '../constants';
+import { GRPC_METHOD_METADATA, GrpcMethodMetadata } from '../decorators';
+import { DistributedTracer, TraceSpan } from '../enhancements/tracing';
+
+interface TracingOption {
+    recordPayloadSize?: boolean; // tag request / response sizes of sampled calls, costs one JSON encoding per message (default false)
+}
+
+/**
+ * Opens a server span per incoming gRPC call, continuing the caller's trace from its `traceparent`
+ * (or B3) metadata. The span is active while the handler runs, so spans started and `WrappedGrpc` calls made
+ * while handling the request become its children.
+ * Register it before GrpcLoggingInterceptor so request logs carry the span's trace id.
+ */
+@Injectable()
+export class GrpcTracingInterceptor implements NestInterceptor {
+    private readonly options: Required<TracingOption>;
+
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly tracer: DistributedTracer,
+        options: TracingOption = {},
+    ) {
+        this.options = {
+            recordPayloadSize: options.recordPayloadSize ?? false,
+        };
+    }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        if (context.getType() !== 'rpc') {
+            return next.handle();
+        }
+
+        const rpcContext = context.switchToRpc();
+        const methodMetadata = this.reflector.get<GrpcMethodMetadata>(GRPC_METHOD_METADATA, context.getHandler());
+        const serviceName = methodMetadata?.service || context.getClass().name;
+        const methodName = methodMetadata?.method || context.getHandler().name;
+
+        const span = this.tracer.startSpan(
+            `${serviceName}.${methodName}`,
+            // A request without trace context starts a new trace, never joins an unrelated active span
+            this.tracer.extract(rpcContext.getContext()) ?? null,
+            {
+                'peer.address': this.extractPeer(context.getArgByIndex(2)),
+                'rpc.method': methodName,
+                'rpc.service': serviceName,
+                'rpc.system': 'grpc',
+                'span.kind': 'server',
+            },
+        );
+        const requestSize = this.measure(span, rpcContext.getData());
+
+        if (requestSize !== undefined) {
+            this.tracer.addTags(span.spanId, { 'rpc.request.size': requestSize });
+        }
+
+        let responseSize = 0;
+
+        const handler$ = this.tracer.withSpan(span, () => next.handle());
+
+        return handler$.pipe(
+            tap({
+                complete: () =>
+                    this.finish(span, 'completed', {
+                        'rpc.grpc.status_code': GRPC_STATUS_CODES.OK,
+                        'rpc.response.size': this.options.recordPayloadSize ? responseSize : undefined,
+                    }),
+                error: (error: unknown) => {
+                    const statusCode = this.getStatusCode(error);
+
+                    this.tracer.recordException(span.spanId, error, { 'rpc.grpc.status_code': statusCode });
+                    this.finish(span, 'failed', {
+                        'error.message': get(error, 'message'),
+                        'rpc.grpc.status_code': statusCode,
+                    });
+                },
+                next: (response) => {
+                    responseSize += this.measure(span, response) ?? 0;
+                },
+                // The client went away before the handler finished
+                unsubscribe: () =>
+                    this.finish(span, 'completed', {
+                        cancelled: true,
+                        'rpc.grpc.status_code': GRPC_STATUS_CODES.CANCELLED,
+                    }),
+            }),
+        );
+    }
+
+    protected extractPeer(call: unknown): string | undefined {
+        const getPeer: unknown = get(call, 'getPeer');
+
+        if (!isFunction(getPeer)) {
+            return undefined;
+        }
+
+        try {
+            return String(getPeer.call(call));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * gRPC status the call ends with; errors the exception filter has yet to map are reported as UNKNOWN
+     */
+    protected getStatusCode(error: unknown): number {
+        const code: unknown = error instanceof RpcException ? get(error.getError(), 'code') : get(error, 'code');
+
+        return isNumber(code) ? code : GRPC_STATUS_CODES.UNKNOWN;
+    }
+
+    // Sampled-out spans are not tracked by the tracer, only their context is propagated
+    private finish(span: TraceSpan, status: 'completed' | 'failed', tags: Record<string, unknown>): void {
+        if (span.sampled) {
+            this.tracer.finishSpan(span.spanId, status, tags);
+        }
+    }
+
+    /**
+     * Bytes of the JSON encoding of a message, an approximation of its protobuf size; sampled-out spans are not measured
+     */
+    private measure(span: TraceSpan, message: unknown): number | undefined {
+        if (!this.options.recordPayloadSize || !span.sampled || isNil(message) || isObservable(message)) {
+            return undefined;
+        }
+
+        if (Buffer.isBuffer(message)) {
+            return message.length;
+        }
+
+        try {
+            return Buffer.byteLength(JSON.stringify(message) ?? '');
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+export const createGrpcTracingInterceptor =
+    (options?: TracingOption) => (reflector: Reflector, tracer: DistributedTracer) =>
+        new GrpcTracingInterceptor(reflector, tracer, options);
@@ -1 +1,7 @@
+export * from './grpc-deadline.interceptor';
+
+export * from './grpc-idempotency.interceptor';
+
 export * from './grpc-logging.interceptor';
+
+export * from './grpc-tracing.interceptor';
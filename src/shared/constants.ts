@@ -3,3 +3,7 @@ export const GRPC_CORE_OPTIONS = 'GRPC_CORE_OPTIONS';
 export const CIRCUIT_BREAKER_CONFIG = 'CIRCUIT_BREAKER_CONFIG';
 
 export const TRACING_CONFIG = 'TRACING_CONFIG';
+
+export const GRPC_IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export const CACHE_STORE = 'CACHE_STORE';
@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import type { TraceSpan } from '../enhancements/tracing/distributed-tracer.service';
+
+/**
+ * Per-request state carried across async boundaries while a gRPC handler runs
+ */
+export interface GrpcRequestContext {
+    activeSpan?: TraceSpan; // parent of spans started while the handler runs
+    deadline?: Date;
+    metadata?: Record<string, string>; // headers forwarded to outgoing calls (correlation / request / trace ids)
+}
+
+const grpcContextStorage = new AsyncLocalStorage<GrpcRequestContext>();
+
+/**
+ * Run a function with the given request context (merged over the current one, forwarded headers included)
+ */
+export const runWithGrpcContext = <T>(context: GrpcRequestContext, fn: () => T): T => {
+    const current = grpcContextStorage.getStore();
+    const metadata = current?.metadata && context.metadata ? { ...current.metadata, ...context.metadata } : undefined;
+
+    return grpcContextStorage.run({ ...current, ...context, ...(metadata && { metadata }) }, fn);
+};
+
+/**
+ * Get the request context of the gRPC call currently being handled
+ */
+export const getGrpcContext = (): GrpcRequestContext | undefined => grpcContextStorage.getStore();
+
+/**
+ * Get the span of the code currently running (request span, or the one passed to `DistributedTracer.withSpan`)
+ */
+export const getActiveSpan = (): TraceSpan | undefined => grpcContextStorage.getStore()?.activeSpan;
+
+/**
+ * Get the deadline inherited from the incoming call, if any
+ */
+export const getInheritedDeadline = (): Date | undefined => grpcContextStorage.getStore()?.deadline;
+
+/**
+ * Milliseconds left before the inherited deadline, or undefined when there is none
+ */
+export const getRemainingTime = (): number | undefined => {
+    const deadline = getInheritedDeadline();
+
+    return deadline ? deadline.getTime() - Date.now() : undefined;
+};
@@ -0,0 +1,43 @@
+import { loadPackage } from '@nestjs/common/utils/load-package.util';
+
+export interface GrpcMetadataLike {
+    add(key: string, value: unknown): void;
+    clone(): GrpcMetadataLike;
+    get(key: string): unknown[];
+    set(key: string, value: unknown): void;
+}
+
+let grpcPackage: { Metadata: new () => GrpcMetadataLike } | undefined;
+
+/**
+ * Check whether a value behaves like a grpc-js `Metadata` instance
+ */
+export const isGrpcMetadata = (value: unknown): value is GrpcMetadataLike =>
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as GrpcMetadataLike).get === 'function' &&
+    typeof (value as GrpcMetadataLike).set === 'function';
+
+/**
+ * Create an empty grpc-js `Metadata` (loaded lazily, like the NestJS gRPC transport does)
+ */
+export const createGrpcMetadata = (): GrpcMetadataLike => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    grpcPackage ??= loadPackage('@grpc/grpc-js', 'WrappedGrpc', () => require('@grpc/grpc-js'));
+
+    return new grpcPackage!.Metadata();
+};
+
+/**
+ * Read the first value of a metadata key from grpc-js `Metadata` or a plain object
+ */
+export const getMetadataValue = (metadata: unknown, key: string): string | undefined => {
+    const value = isGrpcMetadata(metadata) ? metadata.get(key) : (metadata as null | Record<string, unknown>)?.[key];
+    const first: unknown = Array.isArray(value) ? value[0] : value;
+
+    if (typeof first === 'string') {
+        return first;
+    }
+
+    return Buffer.isBuffer(first) ? first.toString() : undefined;
+};
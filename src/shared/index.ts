@@ -1 +1,5 @@
 export * from './constants';
+
+export * from './grpc-context';
+
+export * from './grpc-metadata';